@@ -1,71 +1,131 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { formatDuration, type DayRecord, type DayRecords } from "./progress";
+import { getCalendarSchedule, getUnlockedDayCount, isPreviewMode } from "./schedule";
+import type { CalendarManifest } from "./manifest";
 import "./AdventCalendar.css";
 
-// Import all 24 images
-import day1 from "./assets/fotos/1.webp";
-import day2 from "./assets/fotos/2.webp";
-import day3 from "./assets/fotos/3.webp";
-import day4 from "./assets/fotos/4.webp";
-import day5 from "./assets/fotos/5.webp";
-import day6 from "./assets/fotos/6.webp";
-import day7 from "./assets/fotos/7.webp";
-import day8 from "./assets/fotos/8.webp";
-import day9 from "./assets/fotos/9.webp";
-import day10 from "./assets/fotos/10.webp";
-import day11 from "./assets/fotos/11.webp";
-import day12 from "./assets/fotos/12.webp";
-import day13 from "./assets/fotos/13.webp";
-import day14 from "./assets/fotos/14.webp";
-import day15 from "./assets/fotos/15.webp";
-import day16 from "./assets/fotos/16.webp";
-import day17 from "./assets/fotos/17.webp";
-import day18 from "./assets/fotos/18.webp";
-import day19 from "./assets/fotos/19.webp";
-import day20 from "./assets/fotos/20.webp";
-import day21 from "./assets/fotos/21.webp";
-import day22 from "./assets/fotos/22.webp";
-import day23 from "./assets/fotos/23.webp";
-import day24 from "./assets/fotos/24.webp";
-
-const images = [day1, day2, day3, day4, day5, day6, day7, day8, day9, day10, day11, day12, day13, day14, day15, day16, day17, day18, day19, day20, day21, day22, day23, day24];
-
 interface AdventCalendarProps {
-  onDaySelect: (day: number, imagePath: string) => void;
+  calendar: CalendarManifest;
+  notice: string | null; // Message shown above the doors
+  onDaySelect: (day: number) => void;
+  onShowSummary: () => void;
+  onShowBackup: () => void;
+  onShowLibrary: () => void;
+  onShowSettings: () => void;
   solvedPuzzles: number[];
+  dayRecords: DayRecords;
 }
 
-function AdventCalendar({ onDaySelect, solvedPuzzles }: AdventCalendarProps) {
+function AdventCalendar({ calendar, notice, onDaySelect, onShowSummary, onShowBackup, onShowLibrary, onShowSettings, solvedPuzzles, dayRecords }: AdventCalendarProps) {
   const [hoveredDay, setHoveredDay] = useState<number | null>(null);
+  const [focusedDay, setFocusedDay] = useState(1);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const doorRefs = useRef<(HTMLButtonElement | null)[]>([]);
 
-  // Check if a day is unlocked (current date is on or after that day in December 2025)
-  const isDayUnlocked = (day: number): boolean => {
-    const now = new Date();
-    const unlockDate = new Date(2025, 11, day); // Month is 0-indexed, so 11 = December
-    return now >= unlockDate;
-  };
+  // Doors open one per day on the configured schedule (or all at once in preview mode)
+  const dayCount = calendar.days.length;
+  const unlockedDayCount = getUnlockedDayCount(getCalendarSchedule(calendar));
+  const isDayUnlocked = (day: number): boolean => day <= unlockedDayCount;
 
   // Handle door click
   const handleDoorClick = (day: number) => {
     if (isDayUnlocked(day)) {
-      onDaySelect(day, images[day - 1]);
+      onDaySelect(day);
+    }
+  };
+
+  // Move focus between doors with the arrow keys (roving tabindex), Enter/Space open a door
+  const handleDoorKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>, day: number) => {
+    // The grid reflows with the screen width, so read the current column count from the layout
+    const columns = gridRef.current ? getComputedStyle(gridRef.current).gridTemplateColumns.split(" ").length : 1;
+    const steps: Record<string, number> = { ArrowLeft: -1, ArrowRight: 1, ArrowUp: -columns, ArrowDown: columns };
+
+    let nextDay: number;
+    if (event.key in steps) {
+      nextDay = day + steps[event.key];
+    } else if (event.key === "Home") {
+      nextDay = 1;
+    } else if (event.key === "End") {
+      nextDay = dayCount;
+    } else {
+      return;
     }
+
+    event.preventDefault();
+    if (nextDay < 1 || nextDay > dayCount) return;
+
+    setFocusedDay(nextDay);
+    doorRefs.current[nextDay - 1]?.focus();
+  };
+
+  const getDoorLabel = (day: number, isUnlocked: boolean, isSolved: boolean, record?: DayRecord): string => {
+    if (isSolved && record) return `Day ${day}, solved, best score ${record.bestScore}, ${record.fewestMoves} moves, ${formatDuration(record.fastestTime)}`;
+    if (isSolved) return `Day ${day}, solved`;
+    if (isUnlocked) return `Day ${day}, open`;
+    return `Day ${day}, locked`;
   };
 
   return (
     <div className="advent-calendar">
-      <h1 className="advent-title">Advent Calendar 2025</h1>
-      <div className="calendar-grid">
-        {Array.from({ length: 24 }, (_, i) => i + 1).map((day) => {
+      <h1 className="advent-title">{calendar.title}</h1>
+      {isPreviewMode() && <div className="preview-badge">Preview mode</div>}
+      {notice && (
+        <div className="calendar-notice" role="status">
+          {notice}
+        </div>
+      )}
+      <div className="calendar-links">
+        {solvedPuzzles.length > 0 && (
+          <button type="button" className="summary-link" onClick={onShowSummary}>
+            Season summary
+          </button>
+        )}
+        <button type="button" className="summary-link" onClick={onShowBackup}>
+          Back up progress
+        </button>
+        <button type="button" className="summary-link" onClick={onShowLibrary}>
+          My calendars
+        </button>
+        <button type="button" className="summary-link" onClick={onShowSettings}>
+          Settings
+        </button>
+      </div>
+      <div ref={gridRef} className="calendar-grid" role="group" aria-label="Calendar doors">
+        {Array.from({ length: dayCount }, (_, i) => i + 1).map((day) => {
           const isUnlocked = isDayUnlocked(day);
           const isSolved = solvedPuzzles.includes(day);
+          const record = isSolved ? dayRecords[day] : undefined;
           return (
-            <div key={day} className={`calendar-door ${isUnlocked ? "unlocked" : "locked"} ${isSolved ? "solved" : ""} ${hoveredDay === day ? "hovered" : ""}`} onClick={() => handleDoorClick(day)} onMouseEnter={() => setHoveredDay(day)} onMouseLeave={() => setHoveredDay(null)}>
-              {isSolved && <img src={images[day - 1]} alt={`Day ${day}`} className="door-image" />}
-              <div className="door-content">
-                <div className="door-number">{day}</div>
-                {!isUnlocked && <div className="lock-icon">🔒</div>}
-              </div>
-            </div>
+            <button
+              key={day}
+              ref={(element) => {
+                doorRefs.current[day - 1] = element;
+              }}
+              type="button"
+              className={`calendar-door ${isUnlocked ? "unlocked" : "locked"} ${isSolved ? "solved" : ""} ${hoveredDay === day ? "hovered" : ""}`}
+              aria-label={getDoorLabel(day, isUnlocked, isSolved, record)}
+              aria-disabled={!isUnlocked}
+              tabIndex={focusedDay === day ? 0 : -1}
+              onClick={() => handleDoorClick(day)}
+              onKeyDown={(event) => handleDoorKeyDown(event, day)}
+              onFocus={() => setFocusedDay(day)}
+              onMouseEnter={() => setHoveredDay(day)}
+              onMouseLeave={() => setHoveredDay(null)}
+            >
+              {isSolved && <img src={calendar.days[day - 1].image} alt="" className="door-image" />}
+              <span className="door-content" aria-hidden="true">
+                <span className="door-number">{day}</span>
+                {record && (
+                  <span className="door-stats">
+                    <span>★ {record.bestScore}</span>
+                    <span className="door-stats-detail">
+                      {record.fewestMoves} moves · {formatDuration(record.fastestTime)}
+                    </span>
+                  </span>
+                )}
+                {!isUnlocked && <span className="lock-icon">🔒</span>}
+              </span>
+            </button>
           );
         })}
       </div>
@@ -1,105 +1,566 @@
 import { Canvas } from "./Canvas";
-import { CandyCrushGame } from "./CandyCrushGame";
+import { CandyCrushGame, type MoveScore } from "./CandyCrushGame";
+import { MAX_FRAME_TIME } from "./CandyCrushCore";
 import AdventCalendar from "./AdventCalendar";
+import SeasonSummary from "./SeasonSummary";
+import ProgressBackup from "./ProgressBackup";
+import CalendarLibrary from "./CalendarLibrary";
+import CalendarBuilder from "./CalendarBuilder";
+import Settings from "./Settings";
+import ReplayViewer from "./ReplayViewer";
+import {
+  clearCalendarProgress,
+  clearSavedGame,
+  getActiveCalendarId,
+  getCandySkinId,
+  getReplay,
+  loadAudioSettings,
+  getSavedGame,
+  loadProgress,
+  markDaySolved,
+  saveAudioSettings,
+  saveGame,
+  saveReplay,
+  setActiveCalendarId,
+  setCandySkinId,
+  setProgressScope,
+} from "./storage";
+import { getLevelConfig } from "./levels";
+import { seedForDay } from "./random";
+import { CALENDAR, type CalendarManifest } from "./manifest";
+import { getCalendar, releaseManifest, toManifest, type CustomCalendar } from "./customCalendars";
+import { getCalendarSchedule, getUnlockDate, getUnlockedDayCount } from "./schedule";
+import { navigate, useRoute, type Route } from "./router";
+import { FrameStats, isFrameStatsEnabled } from "./frameStats";
+import { getCandySkin } from "./skins";
+import { playGameSounds, SoundEffects, unlockAudioOnFirstGesture } from "./audio";
+import { ReplayRecorder } from "./replay";
 import "./App.css";
 import { useEffect, useRef, useState } from "react";
 
-// LocalStorage utilities
-const SOLVED_PUZZLES_KEY = "advent-solved-puzzles";
+// Grid steps for the arrow keys
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+};
+
+// Screen reader summary of a settled move
+const describeMove = (moveScore: MoveScore, revealPercentage: number): string => {
+  const progress = `${Math.round(revealPercentage * 100)}% of the photo revealed.`;
+  if (moveScore.total === 0) {
+    return `No match. ${progress}`;
+  }
 
-const getSolvedPuzzles = (): number[] => {
-  const stored = localStorage.getItem(SOLVED_PUZZLES_KEY);
-  return stored ? JSON.parse(stored) : [];
+  const combo = moveScore.cascades > 1 ? ` with a ${moveScore.cascades}x cascade` : "";
+  return `Match${combo}! ${moveScore.total} points. ${progress}`;
 };
 
-const markPuzzleAsSolved = (day: number) => {
-  const solved = getSolvedPuzzles();
-  if (!solved.includes(day)) {
-    solved.push(day);
-    localStorage.setItem(SOLVED_PUZZLES_KEY, JSON.stringify(solved));
+// Why a day opened through a link can't be played yet, or null if it can
+const getLockedDayNotice = (calendar: CalendarManifest, day: number): string | null => {
+  const schedule = getCalendarSchedule(calendar);
+  if (day > schedule.dayCount) {
+    return `This calendar has no day ${day}.`;
   }
+  if (day > getUnlockedDayCount(schedule)) {
+    const unlockDate = getUnlockDate(day, schedule).toLocaleDateString(undefined, { month: "long", day: "numeric", timeZone: "UTC" });
+    return `Day ${day} opens on ${unlockDate}.`;
+  }
+  return null;
 };
 
 function App() {
   const gameRef = useRef<CandyCrushGame | null>(null);
   const lastTimeRef = useRef<number>(0);
+  const elapsedTimeRef = useRef(0);
+  const gameContainerRef = useRef<HTMLDivElement>(null);
   const [, forceUpdate] = useState({});
-  const [selectedDay, setSelectedDay] = useState<number | null>(null);
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
-  const [solvedPuzzles, setSolvedPuzzles] = useState<number[]>(getSolvedPuzzles());
+  const [frameStats] = useState(() => (isFrameStatsEnabled() ? new FrameStats() : null));
+  const route = useRoute();
+  const [calendar, setCalendar] = useState(CALENDAR);
+  const [calendarId, setCalendarId] = useState<string | null>(null); // Custom calendar being played, null for the built-in one
+  const [editingCalendar, setEditingCalendar] = useState<CustomCalendar | null>(null);
+  const [isCalendarLoading, setIsCalendarLoading] = useState(() => getActiveCalendarId() !== null);
+  const [progress, setProgress] = useState(loadProgress);
+  const [notice, setNotice] = useState<string | null>(null); // Shown on the calendar, e.g. after following a link to a locked day
+  const [attempt, setAttempt] = useState(0);
+  const [failedRevealPercentage, setFailedRevealPercentage] = useState<number | null>(null);
+  const [canUndo, setCanUndo] = useState(false);
+  const [undosLeft, setUndosLeft] = useState(0);
+  const [announcement, setAnnouncement] = useState("");
+  const [skin, setSkin] = useState(() => getCandySkin(getCandySkinId()));
+  const [audioSettings, setAudioSettings] = useState(loadAudioSettings);
+  const [sounds] = useState(() => new SoundEffects(audioSettings));
+
+  const { solvedDays: solvedPuzzles, dayRecords } = progress;
+
+  // Only unlocked days can be played, whichever way they were opened
+  const requestedDay = route.name === "day" && !isCalendarLoading ? route.day : null;
+  const lockedDayNotice = requestedDay !== null ? getLockedDayNotice(calendar, requestedDay) : null;
+  const selectedDay = lockedDayNotice === null ? requestedDay : null;
+  const selectedImage = selectedDay !== null ? calendar.days[selectedDay - 1].image : null;
+
+  // Replays can only be watched for solved days that recorded one
+  const replayDay = route.name === "replay" && !isCalendarLoading ? route.day : null;
+  const replay = replayDay !== null && solvedPuzzles.includes(replayDay) ? getReplay(replayDay) : null;
+  const hasSelectedDayReplay = selectedDay !== null && solvedPuzzles.includes(selectedDay) && getReplay(selectedDay) !== null;
+
+  const goTo = (next: Route) => {
+    setNotice(null);
+    navigate(next);
+  };
+
+  // Switch to a custom calendar (or back to the built-in one), each has its own progress
+  const activateCalendar = (custom: CustomCalendar | null) => {
+    if (calendar !== CALENDAR) {
+      releaseManifest(calendar);
+    }
+
+    const id = custom?.id ?? null;
+    setProgressScope(id);
+    setActiveCalendarId(id);
+    setCalendarId(id);
+    setCalendar(custom ? toManifest(custom) : CALENDAR);
+    setProgress(loadProgress());
+  };
+
+  // Browsers keep audio off until the player interacts with the page
+  useEffect(() => unlockAudioOnFirstGesture(sounds), [sounds]);
+
+  // Reopen the custom calendar that was being played last time
+  useEffect(() => {
+    const activeId = getActiveCalendarId();
+    if (activeId === null) return;
+
+    let isCurrent = true;
+    getCalendar(activeId)
+      .then(
+        (custom) => {
+          if (!isCurrent) return;
+          if (!custom) {
+            setActiveCalendarId(null);
+            return;
+          }
+          setProgressScope(custom.id);
+          setCalendarId(custom.id);
+          setCalendar(toManifest(custom));
+          setProgress(loadProgress());
+        },
+        () => setActiveCalendarId(null)
+      )
+      .finally(() => isCurrent && setIsCalendarLoading(false));
+    return () => {
+      isCurrent = false;
+    };
+  }, []);
+
+  // Send links to locked days back to the calendar, explaining when the door opens
+  useEffect(() => {
+    if (lockedDayNotice !== null) {
+      setNotice(lockedDayNotice);
+      navigate({ name: "calendar" }, { replace: true });
+    }
+  }, [lockedDayNotice]);
+
+  // Send links to missing replays to the day itself
+  const isReplayMissing = replayDay !== null && replay === null;
+  useEffect(() => {
+    if (isReplayMissing && replayDay !== null) {
+      navigate({ name: "day", day: replayDay }, { replace: true });
+    }
+  }, [isReplayMissing, replayDay]);
+
+  // Load the calendar to edit when the builder is opened through its URL
+  const editingCalendarId = route.name === "builder" ? route.calendarId : null;
+  useEffect(() => {
+    if (editingCalendarId === null || editingCalendar?.id === editingCalendarId) return;
+
+    let isCurrent = true;
+    getCalendar(editingCalendarId).then(
+      (custom) => {
+        if (!isCurrent) return;
+        if (custom) {
+          setEditingCalendar(custom);
+        } else {
+          navigate({ name: "library" }, { replace: true });
+        }
+      },
+      () => navigate({ name: "library" }, { replace: true })
+    );
+    return () => {
+      isCurrent = false;
+    };
+  }, [editingCalendarId, editingCalendar]);
 
   useEffect(() => {
     if (selectedImage && selectedDay !== null) {
       // Check if puzzle is already solved
       const isSolved = solvedPuzzles.includes(selectedDay);
 
-      // Initialize game with selected background image
-      gameRef.current = new CandyCrushGame(8, 8, selectedImage, isSolved);
+      // Initialize game with the day's level settings, seeded by day so everyone gets the same board
+      const levelConfig = getLevelConfig(selectedDay, calendar.days[selectedDay - 1].level);
+      const { gridWidth, gridHeight, ...level } = levelConfig;
+      const seed = seedForDay(selectedDay, calendar.schedule.year);
+      const savedGame = getSavedGame(selectedDay, level.candyTypeCount);
+      const game = CandyCrushGame.withCanvas(gridWidth, gridHeight, selectedImage, isSolved, {
+        ...level,
+        seed,
+        savedGame,
+        skin,
+      });
+      const recorder = new ReplayRecorder(game, savedGame, savedGame?.replaySessions);
+      const saveBoard = () => saveGame(selectedDay, { ...game.serialize(), elapsedTime: elapsedTimeRef.current, replaySessions: recorder.getSessions() });
+
+      // Unsubscribed again when the effect is cleaned up, so a replaced game's events can't touch the new one
+      const unsubscribes = [
+        // Once a move settles, save the board and announce the result for screen readers
+        game.on("swap", () => setCanUndo(false)),
+        game.on("move-settled", ({ score }) => {
+          saveBoard();
+          setCanUndo(game.canUndo());
+          setAnnouncement(describeMove(score, game.getRevealPercentage()));
+        }),
+        game.on("reveal-started", () => {
+          setCanUndo(false);
+          setAnnouncement("The photo is revealed!");
+        }),
+
+        game.on("undo", ({ undosLeft }) => {
+          saveBoard();
+          setCanUndo(game.canUndo());
+          setUndosLeft(undosLeft);
+          setFailedRevealPercentage(null);
+          setAnnouncement(`Move undone. ${undosLeft} ${undosLeft === 1 ? "undo" : "undos"} left.`);
+        }),
+
+        // Record the result once the photo is fully revealed
+        game.on("complete", ({ points, tries }) => {
+          const result = { score: points, moves: tries, time: elapsedTimeRef.current };
+          saveReplay(selectedDay, recorder.finish(selectedDay, seed, levelConfig, result));
+          setProgress(markDaySolved(selectedDay, result));
+          clearSavedGame(selectedDay);
+        }),
+
+        // Show the retry screen once the move limit runs out
+        game.on("failed", ({ revealPercentage }) => {
+          clearSavedGame(selectedDay);
+          setCanUndo(game.canUndo());
+          setFailedRevealPercentage(revealPercentage);
+        }),
+
+        playGameSounds(game, sounds),
+      ];
+
+      gameRef.current = game;
+      elapsedTimeRef.current = savedGame?.elapsedTime ?? 0;
+      lastTimeRef.current = 0;
+      setFailedRevealPercentage(null);
+      setCanUndo(false);
+      setUndosLeft(game.getUndosLeft());
+      gameContainerRef.current?.focus();
       forceUpdate({});
+
+      return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+    } else {
+      gameRef.current = null;
+      setFailedRevealPercentage(null);
     }
-  }, [selectedImage, selectedDay, solvedPuzzles]);
+  }, [selectedImage, selectedDay, solvedPuzzles, attempt, calendar, skin, sounds]);
 
   const handleDraw = (canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D, time: number) => {
     if (!gameRef.current) return;
 
-    // Update time tracking
+    // Update time tracking, counting play time until the photo starts to reveal
+    // (the first frame of a game has no previous timestamp to measure from)
+    const workStart = performance.now();
+    const rawFrameTime = lastTimeRef.current ? time - lastTimeRef.current : 0;
+    const frameTime = Math.min(rawFrameTime, MAX_FRAME_TIME);
     lastTimeRef.current = time;
-
-    // Update game logic
-    gameRef.current.update();
-
-    // Check if game is complete and save to localStorage
     const gameState = gameRef.current.getState();
-    if (gameState.isComplete && selectedDay !== null && !solvedPuzzles.includes(selectedDay)) {
-      markPuzzleAsSolved(selectedDay);
-      setSolvedPuzzles(getSolvedPuzzles());
+    if (!gameState.isRevealing && !gameState.isComplete && !gameState.isFailed && frameTime > 0) {
+      elapsedTimeRef.current += frameTime;
     }
 
-    // Render game
-    gameRef.current.render(canvas, ctx);
-  };
+    // Update game logic by the time since the last frame (results arrive through the game's events)
+    gameRef.current.update(frameTime);
 
-  const handleCanvasClick = (event: React.MouseEvent<HTMLDivElement>) => {
-    if (!gameRef.current) return;
+    // Render game (the canvas is scaled for the device pixel ratio, the renderer works in CSS pixels)
+    const width = canvas.width / window.devicePixelRatio;
+    const height = canvas.height / window.devicePixelRatio;
+    gameRef.current.render(ctx, width, height);
+
+    if (frameStats) {
+      frameStats.record(rawFrameTime, performance.now() - workStart);
+      frameStats.draw(ctx, height);
+    }
+  };
 
+  // Convert a pointer event to canvas coordinates (CSS pixels)
+  const getCanvasPoint = (event: React.PointerEvent<HTMLDivElement>) => {
     const canvas = event.currentTarget.querySelector("canvas");
-    if (!canvas) return;
+    if (!canvas) return null;
 
     const rect = canvas.getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    const y = event.clientY - rect.top;
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!gameRef.current || !event.isPrimary) return;
+
+    const point = getCanvasPoint(event);
+    if (!point) return;
 
-    gameRef.current.handleClick(x, y);
+    // Keep receiving move/up events even when the finger leaves the canvas
+    event.currentTarget.setPointerCapture(event.pointerId);
+    gameRef.current.handlePointerDown(point.x, point.y);
   };
 
-  const handleDaySelect = (day: number, imagePath: string) => {
-    setSelectedDay(day);
-    setSelectedImage(imagePath);
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!gameRef.current || !event.isPrimary) return;
+
+    const point = getCanvasPoint(event);
+    if (!point) return;
+
+    gameRef.current.handlePointerMove(point.x, point.y);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!gameRef.current || !event.isPrimary) return;
+
+    gameRef.current.handlePointerUp();
+  };
+
+  const handlePointerCancel = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!gameRef.current || !event.isPrimary) return;
+
+    gameRef.current.handlePointerCancel();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!gameRef.current) return;
+
+    const direction = ARROW_DIRECTIONS[event.key];
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "z") {
+      gameRef.current.undo();
+    } else if (direction) {
+      gameRef.current.handleKeyboardMove(direction[0], direction[1]);
+    } else if (event.key === "Enter" || event.key === " ") {
+      gameRef.current.handleKeyboardSelect();
+    } else if (event.key === "Escape") {
+      gameRef.current.handleKeyboardCancel();
+    } else {
+      return;
+    }
+
+    event.preventDefault();
+  };
+
+  const handleDaySelect = (day: number) => {
+    goTo({ name: "day", day });
   };
 
   const handleBackToCalendar = () => {
-    setSelectedDay(null);
-    setSelectedImage(null);
-    gameRef.current = null;
+    goTo({ name: "calendar" });
   };
 
+  const handleRetry = () => {
+    setFailedRevealPercentage(null);
+    setAttempt((previous) => previous + 1);
+  };
+
+  const handleUndo = () => {
+    gameRef.current?.undo();
+    gameContainerRef.current?.focus();
+  };
+
+  // Throw away the saved board and start the day from scratch
+  const handleRestartDay = () => {
+    if (selectedDay === null) return;
+
+    clearSavedGame(selectedDay);
+    setFailedRevealPercentage(null);
+    setAttempt((previous) => previous + 1);
+  };
+
+  // Wait for the custom calendar being played before deciding what a link points at
+  if (isCalendarLoading) {
+    return null;
+  }
+
+  // Show the season summary or progress backup when requested from the calendar
+  if (route.name === "summary") {
+    return <SeasonSummary solvedPuzzles={solvedPuzzles} dayRecords={dayRecords} onBack={() => goTo({ name: "calendar" })} />;
+  }
+
+  if (route.name === "backup") {
+    return <ProgressBackup onImport={setProgress} onBack={() => goTo({ name: "calendar" })} />;
+  }
+
+  if (route.name === "replay") {
+    if (replay === null || replayDay === null) {
+      return null;
+    }
+
+    return (
+      <ReplayViewer
+        key={replayDay}
+        replay={replay}
+        image={calendar.days[replayDay - 1].image}
+        skin={skin}
+        onBack={() => goTo({ name: "day", day: replayDay })}
+      />
+    );
+  }
+
+  if (route.name === "settings") {
+    return (
+      <Settings
+        skinId={skin.id}
+        onSkinChange={(skinId) => {
+          setCandySkinId(skinId);
+          setSkin(getCandySkin(skinId));
+        }}
+        audioSettings={audioSettings}
+        onAudioSettingsChange={(settings) => {
+          saveAudioSettings(settings);
+          setAudioSettings(settings);
+          sounds.setSettings(settings);
+          sounds.play("select"); // Let the player hear the new volume
+        }}
+        onBack={() => goTo({ name: "calendar" })}
+      />
+    );
+  }
+
+  if (route.name === "library") {
+    return (
+      <CalendarLibrary
+        activeCalendarId={calendarId}
+        onPlay={(custom) => {
+          activateCalendar(custom);
+          goTo({ name: "calendar" });
+        }}
+        onEdit={(custom) => {
+          setEditingCalendar(custom);
+          goTo({ name: "builder", calendarId: custom?.id ?? null });
+        }}
+        onDeleted={(id) => {
+          clearCalendarProgress(id);
+          if (id === calendarId) activateCalendar(null);
+        }}
+        onBack={() => goTo({ name: "calendar" })}
+      />
+    );
+  }
+
+  if (route.name === "builder") {
+    // Opened through a link: wait until the calendar to edit has loaded
+    if (route.calendarId !== null && editingCalendar?.id !== route.calendarId) {
+      return null;
+    }
+
+    return (
+      <CalendarBuilder
+        key={route.calendarId ?? "new"}
+        calendar={route.calendarId === null ? null : editingCalendar}
+        onSaved={(custom) => {
+          // Pick up the new photos if the calendar being played was edited
+          if (custom.id === calendarId) activateCalendar(custom);
+          goTo({ name: "library" });
+        }}
+        onBack={() => goTo({ name: "library" })}
+      />
+    );
+  }
+
   // Show advent calendar if no day is selected
   if (selectedDay === null) {
-    return <AdventCalendar onDaySelect={handleDaySelect} solvedPuzzles={solvedPuzzles} />;
+    return (
+      <AdventCalendar
+        calendar={calendar}
+        notice={notice}
+        onDaySelect={handleDaySelect}
+        onShowSummary={() => goTo({ name: "summary" })}
+        onShowBackup={() => goTo({ name: "backup" })}
+        onShowLibrary={() => goTo({ name: "library" })}
+        onShowSettings={() => goTo({ name: "settings" })}
+        solvedPuzzles={solvedPuzzles}
+        dayRecords={dayRecords}
+      />
+    );
   }
 
   // Show game for selected day
+  const calendarDay = calendar.days[selectedDay - 1];
+  const isSelectedDaySolved = solvedPuzzles.includes(selectedDay);
+  const hasUndo = !isSelectedDaySolved && getLevelConfig(selectedDay, calendarDay.level).undoLimit > 0;
   return (
     <div className="app-container">
       <div className="back-button-container">
         <button className="back-button" onClick={handleBackToCalendar}>
           Back
         </button>
+        {hasUndo && (
+          <button className="back-button" onClick={handleUndo} disabled={!canUndo} aria-label={`Undo last move, ${undosLeft} left`}>
+            Undo ({undosLeft})
+          </button>
+        )}
+        {!isSelectedDaySolved && (
+          <button className="back-button" onClick={handleRestartDay}>
+            Restart day
+          </button>
+        )}
+        {hasSelectedDayReplay && (
+          <button className="back-button" onClick={() => goTo({ name: "replay", day: selectedDay })}>
+            Watch replay
+          </button>
+        )}
       </div>
-      <div className="day-number-display">Day {selectedDay}</div>
-      <div className="game-container" onClick={handleCanvasClick}>
+      <div className="day-number-display">
+        Day {selectedDay}
+        {calendarDay.caption && <div className="day-caption">{calendarDay.caption}</div>}
+      </div>
+      <div
+        ref={gameContainerRef}
+        className="game-container"
+        tabIndex={0}
+        role="application"
+        aria-label="Candy board. Use the arrow keys to move, Enter to select a candy, then an arrow key to swap it."
+        onKeyDown={handleKeyDown}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+      >
         <Canvas draw={handleDraw} />
       </div>
+      {calendarDay.message && isSelectedDaySolved && <div className="day-message">{calendarDay.message}</div>}
+      <div className="visually-hidden" role="status" aria-live="polite">
+        {announcement}
+      </div>
+      {failedRevealPercentage !== null && (
+        <div className="game-overlay" role="alertdialog" aria-labelledby="game-overlay-title" aria-describedby="game-overlay-text">
+          <div className="game-overlay-panel">
+            <h2 id="game-overlay-title" className="game-overlay-title">
+              Out of moves
+            </h2>
+            <p id="game-overlay-text" className="game-overlay-text">
+              You revealed {Math.round(failedRevealPercentage * 100)}% of the photo.
+            </p>
+            <div className="game-overlay-actions">
+              {canUndo && (
+                <button className="game-overlay-button" onClick={handleUndo}>
+                  Undo last move
+                </button>
+              )}
+              <button className="game-overlay-button" onClick={handleRetry} autoFocus>
+                Try again
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from "react";
+import PhotoCropper from "./PhotoCropper";
+import { createCalendarId, saveCalendar, type CustomCalendar } from "./customCalendars";
+import { cropImage, DEFAULT_CROP, loadImage, type CropSettings } from "./imageCrop";
+import { getLevelConfig } from "./levels";
+import { CALENDAR } from "./manifest";
+import { DAY_COUNT } from "./progress";
+import "./CalendarBuilder.css";
+
+interface CalendarBuilderProps {
+  calendar: CustomCalendar | null; // Calendar to edit, null to start a new one
+  onSaved: (calendar: CustomCalendar) => void;
+  onBack: () => void;
+}
+
+interface BuilderDay {
+  source: Blob | null; // Photo as picked (or as saved, when editing)
+  previewUrl: string | null; // Object URL of the source for the thumbnail
+  crop: CropSettings;
+  isSaved: boolean; // Source is the already-cropped photo of a saved calendar
+  caption: string;
+  message: string;
+}
+
+// Width / height of a day's board, which the photo is cropped to
+const getBoardAspect = (day: number): number => {
+  const { gridWidth, gridHeight } = getLevelConfig(day);
+  return gridWidth / gridHeight;
+};
+
+const padDatePart = (value: number) => value.toString().padStart(2, "0");
+
+const createBuilderDays = (calendar: CustomCalendar | null): BuilderDay[] =>
+  Array.from({ length: DAY_COUNT }, (_, i) => {
+    const day = calendar?.days[i];
+    return {
+      source: day?.image ?? null,
+      previewUrl: day ? URL.createObjectURL(day.image) : null,
+      crop: DEFAULT_CROP,
+      isSaved: Boolean(day),
+      caption: day?.caption ?? "",
+      message: day?.message ?? "",
+    };
+  });
+
+function CalendarBuilder({ calendar, onSaved, onBack }: CalendarBuilderProps) {
+  const schedule = calendar?.schedule ?? CALENDAR.schedule;
+  const [title, setTitle] = useState(calendar?.title ?? "");
+  const [startDate, setStartDate] = useState(`${schedule.year}-${padDatePart(schedule.startMonth)}-${padDatePart(schedule.startDay)}`);
+  const [days, setDays] = useState(() => createBuilderDays(calendar));
+  const [selectedDay, setSelectedDay] = useState(1);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  // Free the thumbnails when leaving the builder
+  const daysRef = useRef(days);
+  daysRef.current = days;
+  useEffect(() => () => daysRef.current.forEach((day) => day.previewUrl && URL.revokeObjectURL(day.previewUrl)), []);
+
+  const updateDay = (day: number, changes: Partial<BuilderDay>) => {
+    setDays((previous) => previous.map((entry, i) => (i === day - 1 ? { ...entry, ...changes } : entry)));
+  };
+
+  const setPhoto = (day: number, file: File) => {
+    const previous = days[day - 1];
+    if (previous.previewUrl) URL.revokeObjectURL(previous.previewUrl);
+    updateDay(day, { source: file, previewUrl: URL.createObjectURL(file), crop: DEFAULT_CROP, isSaved: false });
+  };
+
+  // Fill the empty days in order with several photos at once, sorted by file name
+  const handleAddPhotos = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []).sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    event.target.value = "";
+
+    const emptyDays = days.map((entry, i) => (entry.source ? null : i + 1)).filter((day): day is number => day !== null);
+    files.slice(0, emptyDays.length).forEach((file, i) => setPhoto(emptyDays[i], file));
+
+    const skipped = files.length - emptyDays.length;
+    setMessage(skipped > 0 ? `Every day has a photo, ${skipped} ${skipped === 1 ? "photo was" : "photos were"} left out.` : "");
+  };
+
+  const handleDayPhoto = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) setPhoto(selectedDay, file);
+  };
+
+  const missingDays = days.filter((day) => !day.source).length;
+  const canSave = title.trim() !== "" && startDate !== "" && missingDays === 0 && !isSaving;
+
+  const handleSave = async () => {
+    const [year, month, day] = startDate.split("-").map(Number);
+    setIsSaving(true);
+    setMessage("Saving photos…");
+
+    try {
+      // One photo at a time, full-size phone photos decoded side by side can run a tab out of memory
+      const savedDays: CustomCalendar["days"] = [];
+      for (const [i, entry] of days.entries()) {
+        // Photos that were saved before and not re-cropped are kept as they are
+        const isUntouched = entry.isSaved && entry.crop === DEFAULT_CROP;
+        const image = isUntouched ? entry.source! : await cropImage(await loadImage(entry.source!), getBoardAspect(i + 1), entry.crop);
+        savedDays.push({ image, caption: entry.caption.trim(), message: entry.message.trim() || null });
+        setMessage(`Saving photos… ${i + 1} of ${days.length}`);
+      }
+
+      const saved: CustomCalendar = {
+        id: calendar?.id ?? createCalendarId(),
+        title: title.trim(),
+        schedule: { year, startMonth: month, startDay: day, timeZone: calendar?.schedule.timeZone ?? null },
+        days: savedDays,
+        createdAt: calendar?.createdAt ?? new Date().toISOString(),
+      };
+      await saveCalendar(saved);
+      onSaved(saved);
+    } catch (error) {
+      setIsSaving(false);
+      setMessage(`The calendar couldn't be saved: ${(error as Error).message}`);
+    }
+  };
+
+  const current = days[selectedDay - 1];
+
+  return (
+    <div className="calendar-builder">
+      <div className="back-button-container">
+        <button className="back-button" onClick={onBack}>
+          Back
+        </button>
+      </div>
+      <h1 className="builder-title">{calendar ? "Edit Calendar" : "Build a Calendar"}</h1>
+
+      <section className="builder-panel builder-settings">
+        <label className="builder-field">
+          Title
+          <input type="text" className="builder-input" value={title} placeholder="Advent Calendar for Grandma" onChange={(event) => setTitle(event.target.value)} />
+        </label>
+        <label className="builder-field">
+          First door opens
+          <input type="date" className="builder-input" value={startDate} onChange={(event) => setStartDate(event.target.value)} />
+        </label>
+        <label className="builder-button">
+          Add photos
+          <input type="file" accept="image/*" multiple className="visually-hidden" onChange={handleAddPhotos} />
+        </label>
+      </section>
+
+      <div className="builder-days" role="group" aria-label="Days">
+        {days.map((entry, i) => (
+          <button
+            key={i}
+            type="button"
+            className={`builder-day ${selectedDay === i + 1 ? "selected" : ""}`}
+            aria-pressed={selectedDay === i + 1}
+            aria-label={`Day ${i + 1}${entry.source ? "" : ", no photo yet"}`}
+            onClick={() => setSelectedDay(i + 1)}
+          >
+            {entry.previewUrl && <img src={entry.previewUrl} alt="" className="builder-day-image" />}
+            <span className="builder-day-number">{i + 1}</span>
+          </button>
+        ))}
+      </div>
+
+      <section className="builder-panel builder-editor">
+        <h2 className="builder-heading">Day {selectedDay}</h2>
+        {current.source && <PhotoCropper source={current.source} aspect={getBoardAspect(selectedDay)} crop={current.crop} onChange={(crop) => updateDay(selectedDay, { crop })} />}
+        <label className="builder-button">
+          {current.source ? "Replace photo" : "Choose photo"}
+          <input type="file" accept="image/*" className="visually-hidden" onChange={handleDayPhoto} />
+        </label>
+        <label className="builder-field">
+          Caption
+          <input type="text" className="builder-input" value={current.caption} onChange={(event) => updateDay(selectedDay, { caption: event.target.value })} />
+        </label>
+        <label className="builder-field">
+          Message, shown once the day is solved
+          <textarea className="builder-input" rows={3} value={current.message} onChange={(event) => updateDay(selectedDay, { message: event.target.value })} />
+        </label>
+      </section>
+
+      <div className="builder-footer">
+        <div className="builder-message" role="status" aria-live="polite">
+          {message || (missingDays > 0 ? `${missingDays} ${missingDays === 1 ? "day needs" : "days need"} a photo.` : "")}
+        </div>
+        <button type="button" className="builder-button builder-save" disabled={!canSave} onClick={handleSave}>
+          {isSaving ? "Saving…" : "Save calendar"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default CalendarBuilder;
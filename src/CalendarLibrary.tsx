@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { deleteCalendar, exportBundle, importBundle, listCalendars, saveCalendar, type CustomCalendar } from "./customCalendars";
+import { CALENDAR } from "./manifest";
+import { downloadFile } from "./download";
+import "./CalendarLibrary.css";
+
+interface CalendarLibraryProps {
+  activeCalendarId: string | null; // null for the built-in calendar
+  onPlay: (calendar: CustomCalendar | null) => void;
+  onEdit: (calendar: CustomCalendar | null) => void; // null to build a new calendar
+  onDeleted: (calendarId: string) => void;
+  onBack: () => void;
+}
+
+// File name for a calendar bundle, e.g. "advent-calendar-for-grandma.advent.json"
+const getBundleFileName = (calendar: CustomCalendar) => `${calendar.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "calendar"}.advent.json`;
+
+function CalendarLibrary({ activeCalendarId, onPlay, onEdit, onDeleted, onBack }: CalendarLibraryProps) {
+  const [calendars, setCalendars] = useState<CustomCalendar[] | null>(null);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    listCalendars().then(setCalendars, () => {
+      setCalendars([]);
+      setMessage("Your calendars can't be stored in this browser (private browsing may block it).");
+    });
+  }, []);
+
+  const handleExport = async (calendar: CustomCalendar) => {
+    downloadFile(await exportBundle(calendar), getBundleFileName(calendar));
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const calendar = await importBundle(await file.text());
+      await saveCalendar(calendar);
+      setCalendars(await listCalendars());
+      setMessage(`"${calendar.title}" was added.`);
+    } catch (error) {
+      setMessage((error as Error).message);
+    }
+  };
+
+  const handleDelete = async (calendar: CustomCalendar) => {
+    if (!window.confirm(`Delete "${calendar.title}" and its progress? This can't be undone.`)) return;
+
+    await deleteCalendar(calendar.id);
+    onDeleted(calendar.id);
+    setCalendars(await listCalendars());
+    setMessage(`"${calendar.title}" was deleted.`);
+  };
+
+  return (
+    <div className="calendar-library">
+      <div className="back-button-container">
+        <button className="back-button" onClick={onBack}>
+          Back
+        </button>
+      </div>
+      <h1 className="library-title">My Calendars</h1>
+
+      <ul className="library-list">
+        <li className="library-item">
+          <span className="library-item-title">{CALENDAR.title}</span>
+          <div className="library-actions">
+            <button type="button" className="library-button" disabled={activeCalendarId === null} onClick={() => onPlay(null)}>
+              {activeCalendarId === null ? "Playing" : "Play"}
+            </button>
+          </div>
+        </li>
+        {calendars?.map((calendar) => (
+          <li key={calendar.id} className="library-item">
+            <span className="library-item-title">{calendar.title}</span>
+            <div className="library-actions">
+              <button type="button" className="library-button" disabled={activeCalendarId === calendar.id} onClick={() => onPlay(calendar)}>
+                {activeCalendarId === calendar.id ? "Playing" : "Play"}
+              </button>
+              <button type="button" className="library-button" onClick={() => onEdit(calendar)}>
+                Edit
+              </button>
+              <button type="button" className="library-button" onClick={() => handleExport(calendar)}>
+                Export
+              </button>
+              <button type="button" className="library-button" onClick={() => handleDelete(calendar)}>
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="library-actions">
+        <button type="button" className="library-button library-primary" onClick={() => onEdit(null)}>
+          Build a calendar
+        </button>
+        <label className="library-button library-primary">
+          Import bundle
+          <input type="file" accept=".json,application/json" className="visually-hidden" onChange={handleImport} />
+        </label>
+      </div>
+
+      <div className="library-message" role="status" aria-live="polite">
+        {message}
+      </div>
+    </div>
+  );
+}
+
+export default CalendarLibrary;
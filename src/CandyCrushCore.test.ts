@@ -0,0 +1,260 @@
+// Core rules tests
+// Boards are built from rows of letters (a = type 0, b = type 1, ...) and restored as a saved game,
+// "." cells get a checkerboard of two other types that never lines up on its own.
+
+import { describe, expect, it } from "vitest";
+import { CandyCrushCore, type CandyCrushCoreOptions, type GameEvents, type SavedGame } from "./CandyCrushCore";
+
+const FILLER_TYPES = [3, 4];
+const MAX_STEPS = 10000;
+
+function createBoard(rows: string[]): SavedGame {
+  return {
+    grid: rows.map((row, y) =>
+      [...row].map((cell, x) => ({ type: cell === "." ? FILLER_TYPES[(x + y) % 2] : cell.charCodeAt(0) - "a".charCodeAt(0), special: null }))
+    ),
+    revealedCells: rows.map((row) => [...row].map(() => false)),
+    points: 0,
+    tries: 0,
+  };
+}
+
+function createCore(rows: string[], options: CandyCrushCoreOptions = {}): CandyCrushCore {
+  return new CandyCrushCore(rows[0].length, rows.length, false, { seed: 1, candyTypeCount: 5, ...options, savedGame: createBoard(rows) });
+}
+
+// Step until the board accepts input again
+function settle(core: CandyCrushCore) {
+  for (let i = 0; i < MAX_STEPS && core.isBusy(); i++) {
+    core.update();
+  }
+}
+
+// Every payload of an event, in the order they were emitted
+function collect<K extends keyof GameEvents>(core: CandyCrushCore, event: K): GameEvents[K][] {
+  const payloads: GameEvents[K][] = [];
+  core.on(event, (payload) => payloads.push(payload));
+  return payloads;
+}
+
+// Swapping (2,4) with (3,4) lines up the bottom row, then the "b b" falling from row 2 lines up with
+// the b at (3,3) for a second clear
+const CASCADE_BOARD = ["cdecd", "decde", "ebbdc", "dcebe", "aacad"];
+const CASCADE_SWAP = { from: { x: 2, y: 4 }, to: { x: 3, y: 4 } };
+
+describe("CandyCrushCore", () => {
+  describe("seeding", () => {
+    it("generates the same board for the same seed", () => {
+      const first = new CandyCrushCore(8, 8, false, { seed: 42 });
+      const second = new CandyCrushCore(8, 8, false, { seed: 42 });
+      expect(second.serialize()).toEqual(first.serialize());
+    });
+
+    it("generates a different board for a different seed", () => {
+      const first = new CandyCrushCore(8, 8, false, { seed: 42 });
+      const second = new CandyCrushCore(8, 8, false, { seed: 43 });
+      expect(second.serialize().grid).not.toEqual(first.serialize().grid);
+    });
+
+    it("starts without matches", () => {
+      for (let seed = 0; seed < 20; seed++) {
+        expect(new CandyCrushCore(8, 8, false, { seed }).findMatches()).toEqual([]);
+      }
+    });
+  });
+
+  describe("matching", () => {
+    it("finds nothing on a board without lines", () => {
+      expect(createCore([".....", ".....", "....."]).findMatchGroups()).toEqual([]);
+    });
+
+    it.each([
+      ["line3", ["aaa..", ".....", "....."], 3],
+      ["line4", ["aaaa.", ".....", "....."], 4],
+      ["line5", ["aaaaa", ".....", "....."], 5],
+      ["line3", ["a....", "a....", "a....", "....."], 3],
+    ])("classifies a run as %s", (shape, rows, cellCount) => {
+      const groups = createCore(rows).findMatchGroups();
+      expect(groups).toHaveLength(1);
+      expect(groups[0]).toMatchObject({ type: 0, shape });
+      expect(groups[0].cells).toHaveLength(cellCount);
+    });
+
+    it("classifies an L shape as a cross growing from its corner", () => {
+      const [group, ...rest] = createCore(["a....", "a....", "aaa..", "....."]).findMatchGroups();
+      expect(rest).toEqual([]);
+      expect(group.shape).toBe("cross");
+      expect(group.cells).toHaveLength(5);
+      expect(group.origin).toEqual({ x: 0, y: 2 });
+    });
+
+    it("classifies a T shape as a cross growing from its corner", () => {
+      const [group, ...rest] = createCore(["aaa..", ".a...", ".a...", "....."]).findMatchGroups();
+      expect(rest).toEqual([]);
+      expect(group.shape).toBe("cross");
+      expect(group.cells).toHaveLength(5);
+      expect(group.origin).toEqual({ x: 1, y: 0 });
+    });
+
+    it("keeps separate lines of different types apart", () => {
+      const groups = createCore(["aaa..", ".....", "bbbb."]).findMatchGroups();
+      expect(groups.map(({ type, shape }) => ({ type, shape }))).toEqual([
+        { type: 0, shape: "line3" },
+        { type: 1, shape: "line4" },
+      ]);
+    });
+  });
+
+  describe("moves", () => {
+    it("rejects a swap that doesn't make a match", () => {
+      const core = createCore(CASCADE_BOARD);
+      const invalidSwaps = collect(core, "invalid-swap");
+      core.applySwap({ from: { x: 0, y: 0 }, to: { x: 1, y: 0 } });
+      settle(core);
+      expect(invalidSwaps).toHaveLength(1);
+      expect(core.getState().tries).toBe(0);
+    });
+
+    it("scores a cascade with a combo bonus", () => {
+      const core = createCore(CASCADE_BOARD);
+      const cascades = collect(core, "cascade");
+      const settled = collect(core, "move-settled");
+
+      core.applySwap(CASCADE_SWAP);
+      settle(core);
+
+      expect(cascades[0]).toEqual({ depth: 2 });
+      expect(settled).toHaveLength(1);
+      const { score, tries } = settled[0];
+      expect(tries).toBe(1);
+      expect(score.cascades).toBeGreaterThanOrEqual(2);
+      expect(score.comboBonus).toBeGreaterThan(0);
+      expect(score.total).toBe(score.base + score.matchBonus + score.revealBonus + score.comboBonus);
+      expect(core.getState().points).toBe(score.total);
+    });
+  });
+
+  describe("reveal", () => {
+    it("waits for the target score even when the reveal threshold is crossed", () => {
+      const core = createCore(CASCADE_BOARD, { revealThreshold: 0.1, targetScore: 1000000 });
+      const revealStarted = collect(core, "reveal-started");
+
+      core.applySwap(CASCADE_SWAP);
+      settle(core);
+
+      expect(core.getRevealPercentage()).toBeGreaterThanOrEqual(0.1);
+      expect(revealStarted).toEqual([]);
+      expect(core.getState().isRevealing).toBe(false);
+    });
+
+    it("reveals the photo and completes once the threshold and target score are both reached", () => {
+      const core = createCore(CASCADE_BOARD, { revealThreshold: 0.1, targetScore: 30 });
+      const events: string[] = [];
+      core.on("reveal-started", () => events.push("reveal-started"));
+      core.on("complete", () => events.push("complete"));
+
+      core.applySwap(CASCADE_SWAP);
+      for (let i = 0; i < MAX_STEPS && !core.getState().isComplete; i++) {
+        core.update();
+      }
+
+      expect(events).toEqual(["reveal-started", "complete"]);
+      expect(core.getState().isComplete).toBe(true);
+      expect(core.getState().points).toBeGreaterThanOrEqual(30);
+    });
+
+    it("ignores input once the day is solved", () => {
+      const core = new CandyCrushCore(5, 5, true, { seed: 1 });
+      const events: string[] = [];
+      (["select", "swap", "invalid-swap", "move-settled"] as const).forEach((event) => core.on(event, () => events.push(event)));
+      const tries = core.getState().tries;
+
+      core.selectCell(0, 0);
+      core.selectCell(1, 0);
+      core.applySwap(core.findMove() ?? { from: { x: 2, y: 2 }, to: { x: 3, y: 2 } });
+      core.startDrag(2, 2);
+      for (let i = 0; i < 100; i++) {
+        core.update();
+      }
+
+      expect(events).toEqual([]);
+      expect(core.getState().tries).toBe(tries);
+      expect(core.getState().selectedCandy).toBeNull();
+      expect(core.getState().drag).toBeNull();
+    });
+  });
+
+  describe("move limit and undo", () => {
+    it("fails once the last move settles without a reveal", () => {
+      const core = createCore(CASCADE_BOARD, { moveLimit: 1, revealThreshold: 1 });
+      const failed = collect(core, "failed");
+
+      core.applySwap(CASCADE_SWAP);
+      settle(core);
+
+      expect(core.getMovesLeft()).toBe(0);
+      expect(failed).toHaveLength(1);
+      expect(core.getState().isFailed).toBe(true);
+    });
+
+    it("puts the board back to before the last move", () => {
+      const core = createCore(CASCADE_BOARD, { undoLimit: 1 });
+      const before = core.serialize();
+      expect(core.canUndo()).toBe(false);
+
+      core.applySwap(CASCADE_SWAP);
+      settle(core);
+      expect(core.canUndo()).toBe(true);
+      core.undo();
+
+      expect(core.serialize()).toEqual({ ...before, undosUsed: 1 });
+      expect(core.getUndosLeft()).toBe(0);
+      expect(core.canUndo()).toBe(false);
+    });
+
+    it("can take back the move that ran out the move limit", () => {
+      const core = createCore(CASCADE_BOARD, { moveLimit: 1, revealThreshold: 1, undoLimit: 1 });
+      const undos = collect(core, "undo");
+
+      core.applySwap(CASCADE_SWAP);
+      settle(core);
+      core.undo();
+
+      expect(undos).toEqual([{ tries: 0, undosLeft: 0 }]);
+      expect(core.getState().isFailed).toBe(false);
+      expect(core.getMovesLeft()).toBe(1);
+    });
+
+    it("doesn't undo when undos are turned off", () => {
+      const core = createCore(CASCADE_BOARD);
+      core.applySwap(CASCADE_SWAP);
+      settle(core);
+      const after = core.serialize();
+
+      core.undo();
+      expect(core.serialize()).toEqual(after);
+    });
+  });
+
+  describe("saved games", () => {
+    it("restores a saved board", () => {
+      const savedGame = createBoard(CASCADE_BOARD);
+      const core = new CandyCrushCore(5, 5, false, { seed: 1, savedGame });
+      expect(core.serialize().grid).toEqual(savedGame.grid);
+    });
+
+    it.each([
+      ["a missing cell", (savedGame: SavedGame) => (savedGame.grid[1][2] = null as never)],
+      ["an unknown candy type", (savedGame: SavedGame) => (savedGame.grid[1][2].type = 7)],
+      ["a fractional candy type", (savedGame: SavedGame) => (savedGame.grid[1][2].type = 1.5)],
+      ["an unknown special", (savedGame: SavedGame) => (savedGame.grid[1][2].special = "rocket" as never)],
+      ["a revealed cell that isn't a boolean", (savedGame: SavedGame) => (savedGame.revealedCells[1][2] = "yes" as never)],
+      ["a short row", (savedGame: SavedGame) => savedGame.grid[1].pop()],
+    ])("starts a fresh board instead of restoring a save with %s", (_, damage) => {
+      const savedGame = createBoard(CASCADE_BOARD);
+      damage(savedGame);
+      const core = new CandyCrushCore(5, 5, false, { seed: 1, savedGame });
+      expect(core.serialize()).toEqual(new CandyCrushCore(5, 5, false, { seed: 1 }).serialize());
+    });
+  });
+});
@@ -0,0 +1,1439 @@
+// Candy Crush simulation core
+// Pure game rules (grid, matching, physics, scoring, reveal tracking) with no DOM access,
+// so it can be instantiated and stepped in Node as well as in the browser.
+
+import { EventEmitter, type Listener } from "./events";
+import { createRandom, type RandomSource } from "./random";
+import type { RenderCandy, RenderModel } from "./renderModel";
+
+// Power-up candies created by matching more than three in a row
+export const CANDY_SPECIALS = ["stripedHorizontal", "stripedVertical", "wrapped", "colorBomb"] as const;
+export type CandySpecial = (typeof CANDY_SPECIALS)[number];
+
+export interface Candy {
+  x: number; // grid position
+  y: number; // grid position
+  renderX: number; // actual render X position for swap animation
+  renderY: number; // actual render Y position with physics
+  velocityX: number; // horizontal velocity for swapping
+  velocityY: number; // falling velocity
+  type: number; // candy type/color (0-5)
+  scale: number; // for animation
+  markedForRemoval: boolean;
+  opacity: number; // for fade-in effect
+  isNew: boolean; // track if candy is newly spawned
+  special: CandySpecial | null; // power-up with its own clear effect
+}
+
+export interface Snowflake {
+  x: number;
+  y: number;
+  size: number;
+  speed: number;
+  drift: number;
+  opacity: number;
+}
+
+export interface GridPosition {
+  x: number;
+  y: number;
+}
+
+export interface Swap {
+  from: GridPosition;
+  to: GridPosition;
+}
+
+// line3/line4/line5: straight runs, cross: L or T shape made of a horizontal and a vertical run
+export type MatchShape = "line3" | "line4" | "line5" | "cross";
+
+export interface MatchGroup {
+  type: number; // candy type shared by every cell in the group
+  shape: MatchShape;
+  cells: GridPosition[];
+  origin: GridPosition; // where a spawned special appears if the player's swap isn't part of the group
+  isHorizontal: boolean; // orientation of the longest run
+}
+
+interface MatchRun {
+  cells: GridPosition[];
+  isHorizontal: boolean;
+}
+
+// Points earned by one player move, including every cascade it set off
+export interface MoveScore {
+  cascades: number; // Number of clears the move triggered (1 = no chain reaction)
+  base: number; // Points for cleared candies
+  matchBonus: number; // Bonus for lines of four or five and L/T shapes
+  revealBonus: number; // Bonus for cells of the photo revealed for the first time
+  comboBonus: number; // Extra points from cascade multipliers
+  total: number;
+}
+
+const emptyMoveScore = (): MoveScore => ({ cascades: 0, base: 0, matchBonus: 0, revealBonus: 0, comboBonus: 0, total: 0 });
+
+const cellKey = ({ x, y }: GridPosition) => `${x},${y}`;
+
+export interface DragState {
+  origin: GridPosition; // Cell of the candy being dragged
+  offsetX: number; // Drag distance in cells, locked to one axis and at most one cell
+  offsetY: number;
+}
+
+export interface GameState {
+  grid: (Candy | null)[][];
+  gridWidth: number;
+  gridHeight: number;
+  candyTypeCount: number; // Number of distinct candy types on the board
+  selectedCandy: GridPosition | null;
+  drag: DragState | null; // Candy currently following the player's finger
+  cursor: GridPosition | null; // Keyboard cursor, null until the keyboard is used
+  pendingSwapBack: Swap | null; // Rejected swap that animates back once the swap animation ends
+  lastSwap: Swap | null; // Player swap being resolved, decides where specials spawn
+  idleTimer: number; // Steps the settled board has waited for input
+  hint: Swap | null; // Suggested move shown after the player has been idle
+  hintTimer: number; // Steps since the hint appeared, drives the pulse animation
+  isShuffling: boolean; // True while candies move to their reshuffled cells
+  isFalling: boolean;
+  isSwapping: boolean;
+  isRemoving: boolean;
+  isPaused: boolean;
+  pauseTimer: number;
+  points: number;
+  tries: number;
+  moveLimit: number | null; // Maximum number of moves, null for unlimited
+  targetScore: number; // Points needed (together with the reveal threshold) to trigger the full reveal
+  cascadeDepth: number; // Clears since the last player swap (1 = the swap's own match)
+  moveScore: MoveScore; // Score breakdown of the current (or most recent) move
+  revealedCells: boolean[][]; // Track which cells have been revealed
+  isRevealing: boolean; // True when doing the final reveal animation
+  revealProgress: number; // 0 to 1 for color fade-in
+  candyFadeOut: number; // 0 to 1 for candy fade-out during reveal
+  gridFadeOut: number; // 0 to 1 for grid fade-out during reveal
+  snowflakes: Snowflake[]; // Snow particles for final animation
+  isComplete: boolean; // True when reveal is fully complete
+  isFailed: boolean; // True when the move limit ran out before the reveal
+  undosUsed: number; // Undos used this game, carried over in saves
+}
+
+// Settled board stored between sessions so a half-revealed photo can be resumed
+export interface SavedGame {
+  grid: { type: number; special: CandySpecial | null }[][];
+  revealedCells: boolean[][];
+  points: number;
+  tries: number;
+  undosUsed?: number; // Missing in saves from before undo existed
+}
+
+// Events emitted while the game runs, with their payloads
+export interface GameEvents {
+  select: GridPosition; // First candy of a tap-tap or keyboard swap was picked
+  swap: Swap; // Player swap that was accepted (and counts as a move)
+  "invalid-swap": Swap; // Player swap that was rejected and animates back
+  match: { cells: GridPosition[]; groups: MatchGroup[]; score: number; cascade: number }; // One clear, cells include special effects
+  cascade: { depth: number }; // A clear set off by falling candies rather than the swap itself (depth 2 and up)
+  "cell-revealed": { cells: GridPosition[]; revealPercentage: number }; // Cells of the photo revealed for the first time
+  "reveal-started": { points: number };
+  complete: { points: number; tries: number };
+  "move-settled": { score: MoveScore; tries: number }; // The board came to rest after a move and all its cascades
+  failed: { revealPercentage: number }; // Out of moves
+  undo: { tries: number; undosLeft: number }; // The last move was taken back
+}
+
+export interface CandyCrushCoreOptions {
+  seed?: number; // Seed for the built-in PRNG, makes boards reproducible
+  random?: RandomSource; // Custom random source, takes precedence over seed
+  candyTypeCount?: number; // Number of distinct candy types
+  allowFreeSwaps?: boolean; // Accept swaps that don't create a match (for younger players)
+  revealThreshold?: number; // Fraction of cells that must be revealed to trigger the full reveal
+  moveLimit?: number | null; // Maximum number of moves, null for unlimited
+  targetScore?: number; // Points needed before the full reveal can start
+  savedGame?: SavedGame | null; // Resume this board instead of generating a new one
+  undoLimit?: number; // Undos allowed per game, 0 turns undo off
+}
+
+// Game time covered by one update() step. Speeds and timers are tuned for 60 steps per second,
+// so the caller steps the core at this rate regardless of the display's refresh rate.
+export const STEP_TIME = 1000 / 60;
+
+// Frame gaps longer than this in milliseconds (e.g. a backgrounded tab) are cut short by the game loops
+export const MAX_FRAME_TIME = 100;
+
+export class CandyCrushCore {
+  // ============================================
+  // CONFIGURATION PARAMETERS
+  // ============================================
+
+  // Grid configuration
+  private readonly DEFAULT_GRID_WIDTH = 8;
+  private readonly DEFAULT_GRID_HEIGHT = 8;
+  private readonly DEFAULT_CANDY_TYPE_COUNT = 5;
+
+  // Physics and animation speeds, per simulation step (see STEP_TIME)
+  private readonly GRAVITY = 0.15; // Candy falling acceleration
+  private readonly SWAP_SPEED = 0.25; // How fast candies move during swap
+  private readonly REMOVAL_SPEED = 0.08; // How fast candies scale down when removed
+  private readonly FADE_SPEED = 0.15; // How fast new candies fade in
+  private readonly PAUSE_DURATION = 0; // Steps to pause after removal
+
+  // Scoring
+  private readonly POINTS_PER_CANDY = 10; // Base points for every cleared candy
+  private readonly MATCH_BONUS: Record<MatchShape, number> = { line3: 0, line4: 60, cross: 100, line5: 200 };
+  private readonly REVEAL_BONUS_PER_CELL = 5; // Bonus for each newly revealed cell
+  private readonly COMBO_STEP = 0.5; // Multiplier added per cascade level
+  private readonly MAX_COMBO_MULTIPLIER = 5;
+
+  // Drag input
+  private readonly TAP_THRESHOLD = 0.15; // Drags shorter than this (in cells) count as a tap
+  private readonly SWIPE_THRESHOLD = 0.5; // Drags at least this long (in cells) swap candies
+
+  // Hints and reshuffling
+  private readonly HINT_DELAY = 300; // Idle steps before a hint is shown (5s)
+  private readonly MAX_SHUFFLE_ATTEMPTS = 100; // Random arrangements tried before giving up
+
+  // Background image reveal
+  private readonly DEFAULT_REVEAL_THRESHOLD = 0.5; // 50% of cells revealed triggers full reveal
+  private readonly REVEAL_SPEED = 0.3; // Speed of final reveal animation
+  private readonly CANDY_FADEOUT_SPEED = 0.02; // Speed of candy fade during reveal
+  private readonly GRID_FADEOUT_SPEED = 0.02; // Speed of grid fade during reveal
+
+  // Snow animation
+  private readonly SNOW_COUNT = 100; // Maximum number of snowflakes
+  private readonly SNOW_SPAWN_RATE = 3; // New snowflakes per step
+  private readonly SNOW_MIN_SIZE = 2;
+  private readonly SNOW_MAX_SIZE = 6;
+  private readonly SNOW_MIN_SPEED = 0.5;
+  private readonly SNOW_MAX_SPEED = 2;
+  private readonly SNOW_DRIFT_AMOUNT = 1; // Horizontal drift speed
+
+  // ============================================
+  // STATE AND INTERNAL PROPERTIES
+  // ============================================
+
+  private state: GameState;
+  private events = new EventEmitter<GameEvents>();
+  private isMoveSettling = false; // A move is resolving and "move-settled" is still to come
+  private stepCount = 0; // Steps run since the game was created
+  private random: RandomSource;
+  private allowFreeSwaps: boolean;
+  private revealThreshold: number;
+  private undoLimit: number;
+  private undoHistory: SavedGame[] = []; // Boards from before the latest moves, most recent last
+
+  constructor(gridWidth: number = 8, gridHeight: number = 8, startSolved: boolean = false, options: CandyCrushCoreOptions = {}) {
+    const width = gridWidth || this.DEFAULT_GRID_WIDTH;
+    const height = gridHeight || this.DEFAULT_GRID_HEIGHT;
+
+    // All board randomness goes through this source so a seed reproduces a game
+    this.random = options.random ?? (options.seed !== undefined ? createRandom(options.seed) : Math.random);
+    this.allowFreeSwaps = options.allowFreeSwaps ?? false;
+    this.revealThreshold = options.revealThreshold ?? this.DEFAULT_REVEAL_THRESHOLD;
+    this.undoLimit = options.undoLimit ?? 0;
+
+    this.state = {
+      grid: [],
+      gridWidth: width,
+      gridHeight: height,
+      candyTypeCount: options.candyTypeCount ?? this.DEFAULT_CANDY_TYPE_COUNT,
+      selectedCandy: null,
+      drag: null,
+      cursor: null,
+      pendingSwapBack: null,
+      lastSwap: null,
+      idleTimer: 0,
+      hint: null,
+      hintTimer: 0,
+      isShuffling: false,
+      isFalling: false,
+      isSwapping: false,
+      isRemoving: false,
+      isPaused: false,
+      pauseTimer: 0,
+      points: 0,
+      tries: 0,
+      moveLimit: options.moveLimit ?? null,
+      targetScore: options.targetScore ?? 0,
+      cascadeDepth: 0,
+      moveScore: emptyMoveScore(),
+      revealedCells: Array(height)
+        .fill(null)
+        .map(() => Array(width).fill(startSolved)),
+      isRevealing: false,
+      revealProgress: startSolved ? 1 : 0,
+      candyFadeOut: startSolved ? 0 : 1,
+      gridFadeOut: startSolved ? 0 : 1,
+      snowflakes: [],
+      isComplete: startSolved,
+      isFailed: false,
+      undosUsed: 0,
+    };
+
+    if (!startSolved && options.savedGame && this.isCompatibleSave(options.savedGame)) {
+      this.restoreGame(options.savedGame);
+    } else {
+      this.initializeGrid();
+    }
+
+    // If starting solved, initialize snow immediately
+    if (startSolved) {
+      this.initializeSnow();
+    }
+  }
+
+  // Saves from a different grid size or candy type count (e.g. after a level change) can't be restored,
+  // and neither can damaged ones
+  private isCompatibleSave(savedGame: SavedGame): boolean {
+    const hasSize = (rows: unknown[][]) =>
+      Array.isArray(rows) && rows.length === this.state.gridHeight && rows.every((row) => Array.isArray(row) && row.length === this.state.gridWidth);
+    const isValidCell = (cell: SavedGame["grid"][number][number] | null) =>
+      typeof cell === "object" &&
+      cell !== null &&
+      Number.isInteger(cell.type) &&
+      cell.type >= 0 &&
+      cell.type < this.state.candyTypeCount &&
+      (cell.special === null || CANDY_SPECIALS.includes(cell.special));
+
+    return (
+      hasSize(savedGame.grid) &&
+      hasSize(savedGame.revealedCells) &&
+      savedGame.grid.every((row) => row.every(isValidCell)) &&
+      savedGame.revealedCells.every((row) => row.every((cell) => typeof cell === "boolean"))
+    );
+  }
+
+  private restoreGame(savedGame: SavedGame) {
+    this.state.grid = savedGame.grid.map((row, y) =>
+      row.map(({ type, special }, x) => ({
+        ...this.createCandy(x, y),
+        type,
+        special,
+      }))
+    );
+    this.state.revealedCells = savedGame.revealedCells.map((row) => [...row]);
+    this.state.points = savedGame.points;
+    this.state.tries = savedGame.tries;
+    this.state.undosUsed = savedGame.undosUsed ?? 0;
+  }
+
+  // Snapshot of the settled board for resuming later
+  serialize(): SavedGame {
+    return {
+      grid: this.state.grid.map((row) => row.map((candy) => ({ type: candy?.type ?? 0, special: candy?.special ?? null }))),
+      revealedCells: this.state.revealedCells.map((row) => [...row]),
+      points: this.state.points,
+      tries: this.state.tries,
+      undosUsed: this.state.undosUsed,
+    };
+  }
+
+  private initializeGrid() {
+    // Create empty grid
+    this.state.grid = Array(this.state.gridHeight)
+      .fill(null)
+      .map(() => Array(this.state.gridWidth).fill(null));
+
+    // Fill with random candies
+    for (let y = 0; y < this.state.gridHeight; y++) {
+      for (let x = 0; x < this.state.gridWidth; x++) {
+        this.state.grid[y][x] = this.createCandy(x, y);
+      }
+    }
+
+    // Remove initial matches
+    this.removeInitialMatches();
+  }
+
+  private removeInitialMatches() {
+    let hasMatches = true;
+    while (hasMatches) {
+      const matches = this.findMatches();
+      if (matches.length === 0) {
+        hasMatches = false;
+      } else {
+        // Replace matched candies with new random ones
+        matches.forEach(({ x, y }) => {
+          if (this.state.grid[y][x]) {
+            this.state.grid[y][x] = this.createCandy(x, y);
+          }
+        });
+      }
+    }
+  }
+
+  private createCandy(x: number, y: number, startAbove: boolean = false): Candy {
+    return {
+      x,
+      y,
+      renderX: x,
+      renderY: startAbove ? y - 10 : y,
+      velocityX: 0,
+      velocityY: 0,
+      type: Math.floor(this.random() * this.state.candyTypeCount),
+      scale: 1,
+      markedForRemoval: false,
+      opacity: startAbove ? 0 : 1, // New candies start transparent
+      isNew: startAbove,
+      special: null,
+    };
+  }
+
+  // Advance the simulation by one fixed step of STEP_TIME
+  update() {
+    this.stepCount++;
+
+    // Handle final reveal animation
+    if (this.state.isRevealing) {
+      this.updateRevealAnimation();
+    }
+
+    // Update snow if complete
+    if (this.state.isComplete) {
+      this.updateSnow();
+      return; // Don't update game logic anymore
+    }
+
+    // Nothing moves once the player is out of moves
+    if (this.state.isFailed) {
+      return;
+    }
+
+    // Handle pause after removal
+    if (this.state.isPaused) {
+      this.state.pauseTimer--;
+      if (this.state.pauseTimer <= 0) {
+        this.state.isPaused = false;
+      }
+      return; // Don't update anything else during pause
+    }
+
+    // Hold the board still while the player drags a candy
+    if (this.state.drag) {
+      return;
+    }
+
+    // Update swap animation
+    if (this.state.isSwapping) {
+      this.updateSwapAnimation();
+
+      // Play rejected swaps back to their original cells
+      if (!this.state.isSwapping && this.state.pendingSwapBack) {
+        const { from, to } = this.state.pendingSwapBack;
+        this.state.pendingSwapBack = null;
+        this.swapCandies(from.x, from.y, to.x, to.y);
+      }
+
+      if (!this.state.isSwapping) {
+        this.state.isShuffling = false;
+      }
+      return;
+    }
+
+    // Update removal animation
+    if (this.state.isRemoving) {
+      this.updateRemovalAnimation();
+      return;
+    }
+
+    // Update physics and fade-in effects
+    this.updatePhysics();
+    this.updateFadeIn();
+
+    // If nothing is falling and nothing is being removed, check for matches
+    if (!this.state.isFalling && !this.state.isRemoving) {
+      const groups = this.findMatchGroups();
+      const bombActivation = this.getColorBombActivation();
+      if (groups.length > 0 || bombActivation) {
+        this.clearMatches(groups, bombActivation);
+      } else if (!this.state.isRevealing) {
+        if (this.isMoveSettling) {
+          this.isMoveSettling = false;
+          this.events.emit("move-settled", { score: { ...this.state.moveScore }, tries: this.state.tries });
+        }
+        this.updateIdle();
+      }
+      // Only the first clear after a swap counts as player-made, cascades spawn specials in place
+      this.state.lastSwap = null;
+    }
+  }
+
+  // Runs while the board is settled: reshuffle dead boards and show a hint after a while
+  private updateIdle() {
+    // Out of moves once the last move and all its cascades have settled without a reveal
+    const movesLeft = this.getMovesLeft();
+    if (movesLeft !== null && movesLeft <= 0) {
+      this.state.isFailed = true;
+      this.resetIdle();
+      this.events.emit("failed", { revealPercentage: this.getRevealPercentage() });
+      return;
+    }
+
+    if (this.state.idleTimer === 0 && !this.findMove()) {
+      this.shuffle();
+      return;
+    }
+
+    this.state.idleTimer++;
+    if (this.state.hint) {
+      this.state.hintTimer++;
+    } else if (this.state.idleTimer >= this.HINT_DELAY) {
+      this.state.hint = this.findMove();
+      this.state.hintTimer = 0;
+    }
+  }
+
+  private resetIdle() {
+    this.state.idleTimer = 0;
+    this.state.hint = null;
+    this.state.hintTimer = 0;
+  }
+
+  // Subscribe to a game event, returns a function that unsubscribes again
+  on<K extends keyof GameEvents>(event: K, listener: Listener<GameEvents[K]>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  // True while candies are moving, a move is still resolving or the board is otherwise not accepting input
+  // (revealing, solved or out of moves). Input is only taken on a settled board, which keeps games
+  // reproducible from their swaps (see replay.ts).
+  isBusy(): boolean {
+    return (
+      this.isMoveSettling ||
+      this.state.isFalling ||
+      this.state.isSwapping ||
+      this.state.isRemoving ||
+      this.state.isPaused ||
+      this.state.isRevealing ||
+      this.state.isComplete ||
+      this.state.isFailed
+    );
+  }
+
+  // Number of update() steps run so far
+  getStepCount(): number {
+    return this.stepCount;
+  }
+
+  // Remaining moves, or null when the game has no move limit
+  getMovesLeft(): number | null {
+    if (this.state.moveLimit === null) return null;
+    return Math.max(0, this.state.moveLimit - this.state.tries);
+  }
+
+  private updatePhysics() {
+    let anyFalling = false;
+
+    for (let y = this.state.gridHeight - 1; y >= 0; y--) {
+      for (let x = 0; x < this.state.gridWidth; x++) {
+        const candy = this.state.grid[y][x];
+        if (!candy || candy.markedForRemoval) continue;
+
+        // Check if there's space below
+        const targetY = candy.y;
+        if (candy.renderY < targetY - 0.01) {
+          // Still falling
+          candy.velocityY += this.GRAVITY;
+          candy.renderY += candy.velocityY;
+
+          // Check if reached target
+          if (candy.renderY >= targetY) {
+            candy.renderY = targetY;
+            candy.velocityY = 0;
+          } else {
+            anyFalling = true;
+          }
+        } else {
+          candy.velocityY = 0;
+        }
+      }
+    }
+
+    // Check if any candy needs to fall
+    for (let x = 0; x < this.state.gridWidth; x++) {
+      for (let y = this.state.gridHeight - 1; y >= 0; y--) {
+        const candy = this.state.grid[y][x];
+        if (!candy || candy.markedForRemoval) {
+          // Find candy above to fall down
+          for (let above = y - 1; above >= 0; above--) {
+            const aboveCandy = this.state.grid[above][x];
+            if (aboveCandy && !aboveCandy.markedForRemoval) {
+              // Move candy down
+              this.state.grid[y][x] = aboveCandy;
+              this.state.grid[above][x] = null;
+              aboveCandy.y = y;
+              aboveCandy.x = x;
+              aboveCandy.renderX = x;
+              // Make sure falling candies are fully opaque
+              if (!aboveCandy.isNew) {
+                aboveCandy.opacity = 1;
+              }
+              anyFalling = true;
+              break;
+            }
+          }
+
+          // If no candy found above, create new one at top
+          if (!this.state.grid[y][x]) {
+            this.state.grid[y][x] = this.createCandy(x, y, true);
+            anyFalling = true;
+          }
+        }
+      }
+    }
+
+    this.state.isFalling = anyFalling;
+  }
+
+  // All adjacent swaps that would create a match on the current board
+  findPossibleMoves(): Swap[] {
+    const moves: Swap[] = [];
+
+    for (let y = 0; y < this.state.gridHeight; y++) {
+      for (let x = 0; x < this.state.gridWidth; x++) {
+        if (x + 1 < this.state.gridWidth && this.createsMatch(x, y, x + 1, y)) {
+          moves.push({ from: { x, y }, to: { x: x + 1, y } });
+        }
+        if (y + 1 < this.state.gridHeight && this.createsMatch(x, y, x, y + 1)) {
+          moves.push({ from: { x, y }, to: { x, y: y + 1 } });
+        }
+      }
+    }
+
+    return moves;
+  }
+
+  // First available move, or null if the board is stuck
+  findMove(): Swap | null {
+    return this.findPossibleMoves()[0] ?? null;
+  }
+
+  // Rearrange the existing candies into a board without matches that has at least one move,
+  // animating each candy from its old cell to its new one
+  private shuffle() {
+    const grid = this.state.grid;
+    const candies: Candy[] = [];
+    for (let y = 0; y < this.state.gridHeight; y++) {
+      for (let x = 0; x < this.state.gridWidth; x++) {
+        const candy = grid[y][x];
+        if (candy) candies.push(candy);
+      }
+    }
+    if (candies.length !== this.state.gridWidth * this.state.gridHeight) return;
+
+    for (let attempt = 0; attempt < this.MAX_SHUFFLE_ATTEMPTS; attempt++) {
+      // Fisher-Yates shuffle driven by the game's random source
+      for (let i = candies.length - 1; i > 0; i--) {
+        const j = Math.floor(this.random() * (i + 1));
+        [candies[i], candies[j]] = [candies[j], candies[i]];
+      }
+
+      candies.forEach((candy, i) => {
+        grid[Math.floor(i / this.state.gridWidth)][i % this.state.gridWidth] = candy;
+      });
+
+      // If no arrangement works, keep the last one and let cascades sort it out
+      if (this.findMatches().length === 0 && this.findMove()) break;
+    }
+
+    // Update target positions (but keep render positions for animation)
+    for (let y = 0; y < this.state.gridHeight; y++) {
+      for (let x = 0; x < this.state.gridWidth; x++) {
+        const candy = grid[y][x]!;
+        candy.x = x;
+        candy.y = y;
+      }
+    }
+
+    this.resetIdle();
+    this.state.selectedCandy = null;
+    this.state.isShuffling = true;
+    this.state.isSwapping = true;
+  }
+
+  findMatches(): GridPosition[] {
+    return this.findMatchGroups().flatMap((group) => group.cells);
+  }
+
+  // Matches grouped by connected runs of the same type and classified by shape
+  findMatchGroups(): MatchGroup[] {
+    const groups: { runs: MatchRun[]; keys: Set<string> }[] = [];
+
+    for (const run of this.findRuns()) {
+      const keys = run.cells.map(cellKey);
+      const merged = { runs: [run], keys: new Set(keys) };
+
+      // Merge every existing group that shares a cell with this run
+      for (let i = groups.length - 1; i >= 0; i--) {
+        if (keys.some((key) => groups[i].keys.has(key))) {
+          merged.runs.push(...groups[i].runs);
+          groups[i].keys.forEach((key) => merged.keys.add(key));
+          groups.splice(i, 1);
+        }
+      }
+
+      groups.push(merged);
+    }
+
+    return groups.map(({ runs }) => this.classifyGroup(runs));
+  }
+
+  // Maximal horizontal and vertical runs of three or more candies of the same type
+  private findRuns(): MatchRun[] {
+    const runs: MatchRun[] = [];
+
+    // Check horizontal matches
+    for (let y = 0; y < this.state.gridHeight; y++) {
+      let x = 0;
+      while (x < this.state.gridWidth) {
+        const type = this.getMatchType(x, y);
+        let matchLength = 1;
+        while (type !== null && x + matchLength < this.state.gridWidth && this.getMatchType(x + matchLength, y) === type) {
+          matchLength++;
+        }
+
+        if (matchLength >= 3) {
+          runs.push({ cells: Array.from({ length: matchLength }, (_, dx) => ({ x: x + dx, y })), isHorizontal: true });
+        }
+        x += matchLength;
+      }
+    }
+
+    // Check vertical matches
+    for (let x = 0; x < this.state.gridWidth; x++) {
+      let y = 0;
+      while (y < this.state.gridHeight) {
+        const type = this.getMatchType(x, y);
+        let matchLength = 1;
+        while (type !== null && y + matchLength < this.state.gridHeight && this.getMatchType(x, y + matchLength) === type) {
+          matchLength++;
+        }
+
+        if (matchLength >= 3) {
+          runs.push({ cells: Array.from({ length: matchLength }, (_, dy) => ({ x, y: y + dy })), isHorizontal: false });
+        }
+        y += matchLength;
+      }
+    }
+
+    return runs;
+  }
+
+  // Type used for matching, null for empty cells, candies being removed and colour bombs
+  private getMatchType(x: number, y: number): number | null {
+    const candy = this.state.grid[y][x];
+    if (!candy || candy.markedForRemoval || candy.special === "colorBomb") return null;
+    return candy.type;
+  }
+
+  private classifyGroup(runs: MatchRun[]): MatchGroup {
+    const cells = new Map<string, GridPosition>();
+    runs.forEach((run) => run.cells.forEach((cell) => cells.set(cellKey(cell), cell)));
+
+    const longest = runs.reduce((best, run) => (run.cells.length > best.cells.length ? run : best));
+    const hasHorizontal = runs.some((run) => run.isHorizontal);
+    const hasVertical = runs.some((run) => !run.isHorizontal);
+
+    let shape: MatchShape = "line3";
+    if (longest.cells.length >= 5) {
+      shape = "line5";
+    } else if (hasHorizontal && hasVertical) {
+      shape = "cross";
+    } else if (longest.cells.length === 4) {
+      shape = "line4";
+    }
+
+    // L/T shapes grow from the corner where the runs cross, lines from their middle
+    let origin = longest.cells[Math.floor(longest.cells.length / 2)];
+    if (shape === "cross") {
+      const horizontalKeys = new Set(runs.filter((run) => run.isHorizontal).flatMap((run) => run.cells.map(cellKey)));
+      origin = runs.filter((run) => !run.isHorizontal).flatMap((run) => run.cells).find((cell) => horizontalKeys.has(cellKey(cell))) ?? origin;
+    }
+
+    const first = longest.cells[0];
+    return {
+      type: this.state.grid[first.y][first.x]!.type,
+      shape,
+      cells: Array.from(cells.values()),
+      origin,
+      isHorizontal: longest.isHorizontal,
+    };
+  }
+
+  private getSpawnedSpecial(group: MatchGroup): CandySpecial | null {
+    switch (group.shape) {
+      case "line5":
+        return "colorBomb";
+      case "cross":
+        return "wrapped";
+      case "line4":
+        // A horizontal line of four creates a candy that clears its column and vice versa
+        return group.isHorizontal ? "stripedVertical" : "stripedHorizontal";
+      default:
+        return null;
+    }
+  }
+
+  // Prefer the cell the player swapped into, then the group's origin, and never replace an existing special
+  private getSpawnPosition(group: MatchGroup): GridPosition | null {
+    const isFree = (cell: GridPosition) => !this.state.grid[cell.y][cell.x]?.special;
+    const groupKeys = new Set(group.cells.map(cellKey));
+    const swapCells = this.state.lastSwap ? [this.state.lastSwap.to, this.state.lastSwap.from] : [];
+
+    const candidates = [...swapCells.filter((cell) => groupKeys.has(cellKey(cell))), group.origin, ...group.cells];
+    return candidates.find(isFree) ?? null;
+  }
+
+  // Swapping a colour bomb clears every candy of the partner's type (or the whole board for two bombs)
+  private getColorBombActivation(): { bomb: GridPosition; cells: GridPosition[] } | null {
+    const swap = this.state.lastSwap;
+    if (!swap) return null;
+
+    const fromCandy = this.state.grid[swap.from.y][swap.from.x];
+    const toCandy = this.state.grid[swap.to.y][swap.to.x];
+    if (!fromCandy || !toCandy) return null;
+
+    const [bomb, partner] = toCandy.special === "colorBomb" ? [swap.to, fromCandy] : fromCandy.special === "colorBomb" ? [swap.from, toCandy] : [null, null];
+    if (!bomb || !partner) return null;
+
+    const cells = this.getCellsWhere((candy) => partner.special === "colorBomb" || candy.type === partner.type);
+    return { bomb, cells: [bomb, ...cells] };
+  }
+
+  private getCellsWhere(predicate: (candy: Candy) => boolean): GridPosition[] {
+    const cells: GridPosition[] = [];
+    for (let y = 0; y < this.state.gridHeight; y++) {
+      for (let x = 0; x < this.state.gridWidth; x++) {
+        const candy = this.state.grid[y][x];
+        if (candy && !candy.markedForRemoval && predicate(candy)) {
+          cells.push({ x, y });
+        }
+      }
+    }
+    return cells;
+  }
+
+  // Cells cleared when a special candy is removed
+  private getSpecialEffectCells(candy: Candy): GridPosition[] {
+    switch (candy.special) {
+      case "stripedHorizontal":
+        return Array.from({ length: this.state.gridWidth }, (_, x) => ({ x, y: candy.y }));
+      case "stripedVertical":
+        return Array.from({ length: this.state.gridHeight }, (_, y) => ({ x: candy.x, y }));
+      case "wrapped": {
+        const cells: GridPosition[] = [];
+        for (let y = Math.max(0, candy.y - 1); y <= Math.min(this.state.gridHeight - 1, candy.y + 1); y++) {
+          for (let x = Math.max(0, candy.x - 1); x <= Math.min(this.state.gridWidth - 1, candy.x + 1); x++) {
+            cells.push({ x, y });
+          }
+        }
+        return cells;
+      }
+      case "colorBomb": {
+        // Caught in another blast: clear a random candy type
+        const type = Math.floor(this.random() * this.state.candyTypeCount);
+        return this.getCellsWhere((other) => other.type === type && other.special !== "colorBomb");
+      }
+      default:
+        return [];
+    }
+  }
+
+  // Remove matched groups and bomb targets, spawn new specials and chain the effects of cleared specials
+  private clearMatches(groups: MatchGroup[], bombActivation: { bomb: GridPosition; cells: GridPosition[] } | null) {
+    const cells = new Map<string, GridPosition>();
+    const triggered = new Set<string>(); // Specials that already went off (or were just created)
+
+    groups.forEach((group) => group.cells.forEach((cell) => cells.set(cellKey(cell), cell)));
+    if (bombActivation) {
+      bombActivation.cells.forEach((cell) => cells.set(cellKey(cell), cell));
+      triggered.add(cellKey(bombActivation.bomb));
+    }
+
+    const spawns: { position: GridPosition; special: CandySpecial }[] = [];
+    for (const group of groups) {
+      const special = this.getSpawnedSpecial(group);
+      const position = special ? this.getSpawnPosition(group) : null;
+      if (special && position) {
+        spawns.push({ position, special });
+        triggered.add(cellKey(position));
+      }
+    }
+
+    // Expand the cleared area with the effects of every special caught in it
+    const queue = Array.from(cells.values());
+    while (queue.length > 0) {
+      const cell = queue.pop()!;
+      const candy = this.state.grid[cell.y][cell.x];
+      if (!candy?.special || triggered.has(cellKey(cell))) continue;
+
+      triggered.add(cellKey(cell));
+      for (const affected of this.getSpecialEffectCells(candy)) {
+        if (!cells.has(cellKey(affected))) {
+          cells.set(cellKey(affected), affected);
+          queue.push(affected);
+        }
+      }
+    }
+
+    const clearedCells = Array.from(cells.values());
+    const newlyRevealed = this.markCandiesForRemoval(clearedCells);
+    const score = this.scoreClear(groups, cells.size, newlyRevealed.length);
+
+    if (this.state.cascadeDepth > 1) {
+      this.events.emit("cascade", { depth: this.state.cascadeDepth });
+    }
+    this.events.emit("match", { cells: clearedCells, groups, score, cascade: this.state.cascadeDepth });
+    if (newlyRevealed.length > 0) {
+      this.events.emit("cell-revealed", { cells: newlyRevealed, revealPercentage: this.getRevealPercentage() });
+    }
+
+    this.checkRevealThreshold();
+
+    // Spawned specials stay on the board in place of one of the matched candies
+    for (const { position, special } of spawns) {
+      const candy = this.state.grid[position.y][position.x];
+      if (candy) {
+        candy.markedForRemoval = false;
+        candy.special = special;
+      }
+    }
+  }
+
+  // Award points for one clear, multiplied by how deep into the cascade it happened, returns the points
+  private scoreClear(groups: MatchGroup[], clearedCount: number, newlyRevealed: number): number {
+    this.state.cascadeDepth++;
+    const multiplier = Math.min(this.MAX_COMBO_MULTIPLIER, 1 + (this.state.cascadeDepth - 1) * this.COMBO_STEP);
+
+    const base = clearedCount * this.POINTS_PER_CANDY;
+    const matchBonus = groups.reduce((sum, group) => sum + this.MATCH_BONUS[group.shape], 0);
+    const revealBonus = newlyRevealed * this.REVEAL_BONUS_PER_CELL;
+    const subtotal = base + matchBonus + revealBonus;
+    const comboBonus = Math.round(subtotal * (multiplier - 1));
+
+    const moveScore = this.state.moveScore;
+    moveScore.cascades = this.state.cascadeDepth;
+    moveScore.base += base;
+    moveScore.matchBonus += matchBonus;
+    moveScore.revealBonus += revealBonus;
+    moveScore.comboBonus += comboBonus;
+    moveScore.total += subtotal + comboBonus;
+
+    this.state.points += subtotal + comboBonus;
+    return subtotal + comboBonus;
+  }
+
+  // Returns the cells revealed for the first time
+  private markCandiesForRemoval(matches: GridPosition[]): GridPosition[] {
+    const newlyRevealed: GridPosition[] = [];
+    matches.forEach(({ x, y }) => {
+      const candy = this.state.grid[y][x];
+      if (candy) {
+        candy.markedForRemoval = true;
+      }
+      // Mark cell as revealed
+      if (!this.state.revealedCells[y][x]) {
+        this.state.revealedCells[y][x] = true;
+        newlyRevealed.push({ x, y });
+      }
+    });
+    this.state.isRemoving = true;
+    this.resetIdle();
+
+    return newlyRevealed;
+  }
+
+  // Start the full reveal once enough cells are revealed and the target score is reached
+  private checkRevealThreshold() {
+    const revealPercentage = this.getRevealPercentage();
+    if (revealPercentage >= this.revealThreshold && this.state.points >= this.state.targetScore && !this.state.isRevealing) {
+      this.startFullReveal();
+    }
+  }
+
+  private updateSwapAnimation() {
+    let anySwapping = false;
+
+    for (let y = 0; y < this.state.gridHeight; y++) {
+      for (let x = 0; x < this.state.gridWidth; x++) {
+        const candy = this.state.grid[y][x];
+        if (!candy) continue;
+
+        // Animate X position
+        const targetX = candy.x;
+        if (Math.abs(candy.renderX - targetX) > 0.01) {
+          const dx = targetX - candy.renderX;
+          candy.velocityX = dx * this.SWAP_SPEED;
+          candy.renderX += candy.velocityX;
+
+          if (Math.abs(candy.renderX - targetX) < 0.01) {
+            candy.renderX = targetX;
+            candy.velocityX = 0;
+          } else {
+            anySwapping = true;
+          }
+        }
+
+        // Animate Y position
+        const targetY = candy.y;
+        if (Math.abs(candy.renderY - targetY) > 0.01) {
+          const dy = targetY - candy.renderY;
+          candy.velocityY = dy * this.SWAP_SPEED;
+          candy.renderY += candy.velocityY;
+
+          if (Math.abs(candy.renderY - targetY) < 0.01) {
+            candy.renderY = targetY;
+            candy.velocityY = 0;
+          } else {
+            anySwapping = true;
+          }
+        }
+      }
+    }
+
+    this.state.isSwapping = anySwapping;
+  }
+
+  private updateFadeIn() {
+    for (let y = 0; y < this.state.gridHeight; y++) {
+      for (let x = 0; x < this.state.gridWidth; x++) {
+        const candy = this.state.grid[y][x];
+        if (candy && candy.isNew && candy.opacity < 1) {
+          // Fade in the candy
+          candy.opacity += this.FADE_SPEED;
+          if (candy.opacity >= 1) {
+            candy.opacity = 1;
+            candy.isNew = false;
+          }
+        }
+      }
+    }
+  }
+
+  private updateRemovalAnimation() {
+    let anyRemoving = false;
+
+    for (let y = 0; y < this.state.gridHeight; y++) {
+      for (let x = 0; x < this.state.gridWidth; x++) {
+        const candy = this.state.grid[y][x];
+        if (candy && candy.markedForRemoval) {
+          candy.scale -= this.REMOVAL_SPEED;
+          if (candy.scale <= 0) {
+            this.state.grid[y][x] = null;
+          } else {
+            anyRemoving = true;
+          }
+        }
+      }
+    }
+
+    this.state.isRemoving = anyRemoving;
+
+    // When removal animation is done, trigger pause
+    if (!anyRemoving) {
+      this.state.isPaused = true;
+      this.state.pauseTimer = this.PAUSE_DURATION;
+    }
+  }
+
+  getRevealPercentage(): number {
+    let revealedCount = 0;
+    const totalCells = this.state.gridWidth * this.state.gridHeight;
+
+    for (let y = 0; y < this.state.gridHeight; y++) {
+      for (let x = 0; x < this.state.gridWidth; x++) {
+        if (this.state.revealedCells[y][x]) {
+          revealedCount++;
+        }
+      }
+    }
+
+    return revealedCount / totalCells;
+  }
+
+  private startFullReveal() {
+    this.state.isRevealing = true;
+    this.state.revealProgress = 0;
+    this.state.candyFadeOut = 1;
+    this.state.gridFadeOut = 1;
+    this.isMoveSettling = false; // The reveal takes over from the move
+    this.events.emit("reveal-started", { points: this.state.points });
+  }
+
+  private initializeSnow() {
+    // Start with no snowflakes - they will spawn gradually from the top
+    this.state.snowflakes = [];
+  }
+
+  private updateRevealAnimation() {
+    // First fade out all candies and hidden cell overlays simultaneously
+    if (this.state.candyFadeOut > 0) {
+      this.state.candyFadeOut -= this.CANDY_FADEOUT_SPEED;
+      if (this.state.candyFadeOut < 0) {
+        this.state.candyFadeOut = 0;
+      }
+    }
+
+    if (this.state.gridFadeOut > 0) {
+      this.state.gridFadeOut -= this.GRID_FADEOUT_SPEED;
+      if (this.state.gridFadeOut < 0) {
+        this.state.gridFadeOut = 0;
+      }
+    }
+
+    // Once candies and overlays are faded, fade to color
+    if (this.state.candyFadeOut === 0 && this.state.gridFadeOut === 0) {
+      // Fade from grayscale to color
+      this.state.revealProgress += this.REVEAL_SPEED;
+      if (this.state.revealProgress >= 1) {
+        this.state.revealProgress = 1;
+        // Mark all cells as revealed for final state
+        for (let y = 0; y < this.state.gridHeight; y++) {
+          for (let x = 0; x < this.state.gridWidth; x++) {
+            this.state.revealedCells[y][x] = true;
+          }
+        }
+        // Animation complete - start snow
+        if (!this.state.isComplete) {
+          this.state.isComplete = true;
+          this.initializeSnow();
+          this.events.emit("complete", { points: this.state.points, tries: this.state.tries });
+        }
+      }
+    }
+  }
+
+  private updateSnow() {
+    // Spawn new snowflakes gradually from the top until we reach max count
+    if (this.state.snowflakes.length < this.SNOW_COUNT) {
+      for (let i = 0; i < this.SNOW_SPAWN_RATE; i++) {
+        if (this.state.snowflakes.length < this.SNOW_COUNT) {
+          this.state.snowflakes.push({
+            x: this.random() * 100, // Position as percentage
+            y: -5, // Start from above the screen
+            size: this.SNOW_MIN_SIZE + this.random() * (this.SNOW_MAX_SIZE - this.SNOW_MIN_SIZE),
+            speed: this.SNOW_MIN_SPEED + this.random() * (this.SNOW_MAX_SPEED - this.SNOW_MIN_SPEED),
+            drift: (this.random() - 0.5) * this.SNOW_DRIFT_AMOUNT,
+            opacity: 0.3 + this.random() * 0.7,
+          });
+        }
+      }
+    }
+
+    // Update existing snowflakes
+    for (const snowflake of this.state.snowflakes) {
+      // Move snowflake down and drift horizontally
+      snowflake.y += snowflake.speed;
+      snowflake.x += snowflake.drift;
+
+      // Wrap around when snowflake goes off screen
+      if (snowflake.y > 100) {
+        snowflake.y = -5;
+        snowflake.x = this.random() * 100;
+      }
+      if (snowflake.x < -5) {
+        snowflake.x = 105;
+      } else if (snowflake.x > 105) {
+        snowflake.x = -5;
+      }
+    }
+  }
+
+  // Handle a click/tap on a grid cell using the two-click select model
+  selectCell(gridX: number, gridY: number) {
+    if (gridX < 0 || gridX >= this.state.gridWidth || gridY < 0 || gridY >= this.state.gridHeight) {
+      return;
+    }
+
+    if (this.isBusy()) {
+      return; // Don't allow clicks during animation, pause, reveal, once solved or after running out of moves
+    }
+
+    this.resetIdle();
+
+    if (!this.state.selectedCandy) {
+      // Select first candy
+      this.state.selectedCandy = { x: gridX, y: gridY };
+      this.events.emit("select", { x: gridX, y: gridY });
+    } else {
+      // Try to swap with selected candy
+      const selected = this.state.selectedCandy;
+      const dx = Math.abs(selected.x - gridX);
+      const dy = Math.abs(selected.y - gridY);
+
+      // Check if adjacent
+      if ((dx === 1 && dy === 0) || (dx === 0 && dy === 1)) {
+        this.trySwap(selected.x, selected.y, gridX, gridY);
+      }
+
+      this.state.selectedCandy = null;
+    }
+  }
+
+  // Keyboard play: arrows move the cursor, or swap the selected candy under the cursor in that direction
+  moveCursor(dx: number, dy: number) {
+    const cursor = this.state.cursor;
+    if (!cursor) {
+      this.state.cursor = this.state.selectedCandy ?? { x: 0, y: 0 };
+      return;
+    }
+
+    const target = {
+      x: Math.max(0, Math.min(this.state.gridWidth - 1, cursor.x + dx)),
+      y: Math.max(0, Math.min(this.state.gridHeight - 1, cursor.y + dy)),
+    };
+
+    const selected = this.state.selectedCandy;
+    if (selected && selected.x === cursor.x && selected.y === cursor.y) {
+      this.selectCell(target.x, target.y);
+      return;
+    }
+
+    this.resetIdle();
+    this.state.cursor = target;
+  }
+
+  // Select (or swap with) the candy under the keyboard cursor
+  activateCursor() {
+    const cursor = this.state.cursor;
+    if (!cursor) {
+      this.state.cursor = { x: 0, y: 0 };
+      return;
+    }
+
+    this.selectCell(cursor.x, cursor.y);
+  }
+
+  clearSelection() {
+    this.state.selectedCandy = null;
+  }
+
+  // Start dragging the candy in a grid cell
+  startDrag(gridX: number, gridY: number) {
+    if (gridX < 0 || gridX >= this.state.gridWidth || gridY < 0 || gridY >= this.state.gridHeight) {
+      return;
+    }
+
+    if (this.isBusy() || this.state.drag || !this.state.grid[gridY][gridX]) {
+      return;
+    }
+
+    this.resetIdle();
+    this.state.drag = { origin: { x: gridX, y: gridY }, offsetX: 0, offsetY: 0 };
+  }
+
+  // Move the dragged candy with the pointer (offset in cells from where the drag started)
+  updateDrag(offsetX: number, offsetY: number) {
+    const drag = this.state.drag;
+    if (!drag) return;
+
+    const candy = this.state.grid[drag.origin.y][drag.origin.x];
+    if (!candy) return;
+
+    // Follow the dominant axis only, at most one cell and never off the board
+    const { x, y } = drag.origin;
+    const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+    const isHorizontal = Math.abs(offsetX) >= Math.abs(offsetY);
+    drag.offsetX = isHorizontal ? clamp(offsetX, x > 0 ? -1 : 0, x < this.state.gridWidth - 1 ? 1 : 0) : 0;
+    drag.offsetY = isHorizontal ? 0 : clamp(offsetY, y > 0 ? -1 : 0, y < this.state.gridHeight - 1 ? 1 : 0);
+
+    candy.renderX = x + drag.offsetX;
+    candy.renderY = y + drag.offsetY;
+  }
+
+  // Release the dragged candy: short drags are taps, long ones swap, anything in between snaps back
+  endDrag() {
+    const drag = this.state.drag;
+    if (!drag) return;
+
+    this.state.drag = null;
+    const { x, y } = drag.origin;
+    const distance = Math.abs(drag.offsetX) + Math.abs(drag.offsetY);
+
+    if (distance < this.TAP_THRESHOLD) {
+      const candy = this.state.grid[y][x];
+      if (candy) {
+        candy.renderX = x;
+        candy.renderY = y;
+      }
+      this.selectCell(x, y);
+      return;
+    }
+
+    if (distance >= this.SWIPE_THRESHOLD) {
+      this.state.selectedCandy = null;
+      this.trySwap(x, y, x + Math.sign(drag.offsetX), y + Math.sign(drag.offsetY));
+      return;
+    }
+
+    this.cancelDrag(drag);
+  }
+
+  // Abort the drag and animate the candy back to its cell
+  cancelDrag(drag: DragState | null = this.state.drag) {
+    if (!drag) return;
+
+    this.state.drag = null;
+    this.state.isSwapping = true;
+  }
+
+  // Make a swap without going through selection or dragging (e.g. from a replay), ignored while busy
+  applySwap(swap: Swap) {
+    const isOnGrid = ({ x, y }: GridPosition) => x >= 0 && x < this.state.gridWidth && y >= 0 && y < this.state.gridHeight;
+    if (this.isBusy() || this.state.drag || !isOnGrid(swap.from) || !isOnGrid(swap.to)) return;
+
+    this.resetIdle();
+    this.state.selectedCandy = null;
+    this.trySwap(swap.from.x, swap.from.y, swap.to.x, swap.to.y);
+  }
+
+  // Swap two adjacent candies, animating them back if the swap doesn't create a match
+  private trySwap(x1: number, y1: number, x2: number, y2: number) {
+    if (!this.state.grid[y1][x1] || !this.state.grid[y2][x2]) return;
+
+    const isValid = this.allowFreeSwaps || this.createsMatch(x1, y1, x2, y2);
+    if (isValid) {
+      this.rememberBoard();
+    }
+    this.swapCandies(x1, y1, x2, y2);
+
+    const swap: Swap = { from: { x: x1, y: y1 }, to: { x: x2, y: y2 } };
+    if (isValid) {
+      this.state.tries++;
+      this.state.lastSwap = swap;
+      this.state.cascadeDepth = 0;
+      this.state.moveScore = emptyMoveScore();
+      this.isMoveSettling = true;
+      this.events.emit("swap", swap);
+    } else {
+      this.state.pendingSwapBack = swap;
+      this.events.emit("invalid-swap", swap);
+    }
+  }
+
+  // Keep the settled board from before a move so it can be undone
+  private rememberBoard() {
+    if (this.undoLimit === 0) return;
+
+    this.undoHistory.push(this.serialize());
+    if (this.undoHistory.length > this.undoLimit) {
+      this.undoHistory.shift();
+    }
+  }
+
+  getUndosLeft(): number {
+    return Math.max(0, this.undoLimit - this.state.undosUsed);
+  }
+
+  // A move can be undone once the board has settled (or ran out of moves), until the reveal starts
+  canUndo(): boolean {
+    const isSettled = !this.isBusy() || (this.state.isFailed && !this.state.isRevealing);
+    return isSettled && !this.state.drag && this.undoHistory.length > 0 && this.getUndosLeft() > 0;
+  }
+
+  // Put the board, score, tries and revealed cells back to before the last move and its cascades
+  undo() {
+    if (!this.canUndo()) return;
+
+    const undosUsed = this.state.undosUsed;
+    this.restoreGame(this.undoHistory.pop()!);
+    this.state.undosUsed = undosUsed + 1;
+    this.state.isFailed = false;
+    this.state.selectedCandy = null;
+    this.state.lastSwap = null;
+    this.state.cascadeDepth = 0;
+    this.state.moveScore = emptyMoveScore();
+    this.resetIdle();
+
+    this.events.emit("undo", { tries: this.state.tries, undosLeft: this.getUndosLeft() });
+  }
+
+  // Check whether swapping two cells would produce a match, leaving the board unchanged
+  createsMatch(x1: number, y1: number, x2: number, y2: number): boolean {
+    const grid = this.state.grid;
+    const candy1 = grid[y1][x1];
+    const candy2 = grid[y2][x2];
+    if (!candy1 || !candy2) return false;
+
+    // Colour bombs go off when swapped with anything
+    if (candy1.special === "colorBomb" || candy2.special === "colorBomb") return true;
+
+    grid[y1][x1] = candy2;
+    grid[y2][x2] = candy1;
+    const hasMatch = this.findMatches().length > 0;
+    grid[y1][x1] = candy1;
+    grid[y2][x2] = candy2;
+
+    return hasMatch;
+  }
+
+  private swapCandies(x1: number, y1: number, x2: number, y2: number) {
+    const candy1 = this.state.grid[y1][x1];
+    const candy2 = this.state.grid[y2][x2];
+
+    if (!candy1 || !candy2) return;
+
+    // Swap in grid
+    this.state.grid[y1][x1] = candy2;
+    this.state.grid[y2][x2] = candy1;
+
+    // Update target positions (but keep render positions for animation)
+    const tempX = candy1.x;
+    const tempY = candy1.y;
+    candy1.x = candy2.x;
+    candy1.y = candy2.y;
+    candy2.x = tempX;
+    candy2.y = tempY;
+
+    // Start swap animation
+    this.state.isSwapping = true;
+  }
+
+  getState(): GameState {
+    return this.state;
+  }
+
+  // Plain snapshot of what to draw this step, for any GameRenderer
+  getRenderModel(): RenderModel {
+    const state = this.state;
+    const hint = state.hint;
+    const isHinted = (x: number, y: number) => hint !== null && ((x === hint.from.x && y === hint.from.y) || (x === hint.to.x && y === hint.to.y));
+    const toRenderCandy = (candy: Candy): RenderCandy => ({
+      x: candy.renderX,
+      y: candy.renderY,
+      type: candy.type,
+      special: candy.special,
+      scale: candy.scale,
+      opacity: candy.opacity * state.candyFadeOut,
+      isHinted: isHinted(candy.x, candy.y),
+    });
+
+    // Dragged candy last so it stays on top of its neighbours
+    const draggedCandy = state.drag ? state.grid[state.drag.origin.y][state.drag.origin.x] : null;
+    const candies = state.grid.flat().filter((candy): candy is Candy => candy !== null && candy !== draggedCandy && candy.scale > 0);
+    if (draggedCandy) {
+      candies.push(draggedCandy);
+    }
+
+    return {
+      gridWidth: state.gridWidth,
+      gridHeight: state.gridHeight,
+      candies: candies.map(toRenderCandy),
+      selected: state.selectedCandy ? { ...state.selectedCandy } : null,
+      cursor: state.cursor && !state.isRevealing && !state.isComplete ? { ...state.cursor } : null,
+      hintTime: state.hintTimer,
+      revealedCells: state.revealedCells.map((row) => [...row]),
+      showFullPhoto: state.isRevealing,
+      colorAmount: state.revealProgress,
+      gridOpacity: state.gridFadeOut,
+      coverOpacity: state.isRevealing ? state.gridFadeOut : 0,
+      snowflakes: state.isComplete ? state.snowflakes.map((snowflake) => ({ ...snowflake })) : [],
+      hud: state.isComplete
+        ? null
+        : {
+            movesLeft: this.getMovesLeft(),
+            points: state.points,
+            targetScore: state.targetScore,
+            revealPercentage: this.getRevealPercentage(),
+          },
+    };
+  }
+}
@@ -0,0 +1,546 @@
+// Candy Crush Canvas 2D renderer
+// Draws the RenderModel produced by CandyCrushCore and maps canvas coordinates back to grid cells.
+
+import type { CandySpecial, GridPosition } from "./CandyCrushCore";
+import type { GameRenderer, RenderCandy, RenderHud, RenderModel } from "./renderModel";
+import { DEFAULT_SKIN_ID, getCandySkin, type CandyShape, type CandySkin } from "./skins";
+
+export class CandyCrushRenderer implements GameRenderer {
+  // ============================================
+  // CONFIGURATION PARAMETERS
+  // ============================================
+
+  private readonly DEFAULT_CELL_SIZE = 60;
+  private readonly MAX_CELL_SIZE = 80;
+
+  // Layout configuration
+  private readonly HEADER_HEIGHT = 60; // Space for title and stats
+  private readonly GRID_PADDING = 20; // Padding around the grid
+  private readonly STATS_MARGIN = 8; // Gap between the stats line and the grid
+
+  // Font sizes (calculated dynamically based on canvas width)
+  private readonly TITLE_FONT_MIN = 16;
+  private readonly TITLE_FONT_MAX = 24;
+  private readonly TITLE_FONT_SCALE = 30; // width / scale = font size
+
+  // Color scheme (candy colours come from the skin)
+  private readonly BACKGROUND_COLOR = "#1a4d2e"; // Dark forest green background
+  private readonly GRID_BACKGROUND_COLOR = "#2d5f3f"; // Muted forest green
+  private readonly GRID_LINE_COLOR = "#1a4d2e"; // Subtle dark green lines
+  private readonly TEXT_COLOR = "#F5F5DC"; // Cream text
+  private readonly SELECTION_COLOR = "#DAA520"; // Golden selection border
+  private readonly SELECTION_LINE_WIDTH = 4;
+  private readonly CURSOR_COLOR = "#F5F5DC"; // Cream keyboard cursor
+  private readonly CURSOR_LINE_WIDTH = 2;
+  private readonly OUTLINE_WIDTH = 0.12; // Candy outline as a fraction of the candy radius
+
+  // Hint animation
+  private readonly HINT_PULSE_AMOUNT = 0.12; // Extra scale at the peak of a hint pulse
+  private readonly HINT_PULSE_SPEED = 0.15; // Radians per simulation step
+
+  // ============================================
+  // STATE AND INTERNAL PROPERTIES
+  // ============================================
+
+  private cellSize = this.DEFAULT_CELL_SIZE;
+  private offsetX = 0;
+  private offsetY = 0;
+  private gridWidth = 0; // Grid size of the last rendered model, for cellAt
+  private gridHeight = 0;
+  private backgroundImage: HTMLImageElement | null = null;
+  private imageLoaded = false;
+  private grayscaleImage: HTMLCanvasElement | null = null; // Cached by getGrayscaleImage
+  private skin: CandySkin;
+
+  constructor(backgroundImagePath?: string, skin: CandySkin = getCandySkin(DEFAULT_SKIN_ID)) {
+    this.skin = skin;
+
+    // Load background image if provided
+    if (backgroundImagePath) {
+      this.loadBackgroundImage(backgroundImagePath);
+    }
+  }
+
+  private loadBackgroundImage(path: string) {
+    this.backgroundImage = new Image();
+    this.backgroundImage.onload = () => {
+      this.imageLoaded = true;
+    };
+    this.backgroundImage.src = path;
+  }
+
+  // Map a point in canvas CSS pixels to the grid cell under it (from the last rendered layout)
+  cellAt(canvasX: number, canvasY: number): GridPosition | null {
+    const gridX = Math.floor((canvasX - this.offsetX) / this.cellSize);
+    const gridY = Math.floor((canvasY - this.offsetY) / this.cellSize);
+
+    if (gridX < 0 || gridX >= this.gridWidth || gridY < 0 || gridY >= this.gridHeight) {
+      return null;
+    }
+
+    return { x: gridX, y: gridY };
+  }
+
+  getCellSize(): number {
+    return this.cellSize;
+  }
+
+  // One candy of every type in a row, to preview a skin in the settings (replaces the board layout used by cellAt)
+  renderSkinPreview(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    const typeCount = this.skin.colors.length;
+    this.cellSize = Math.min(width / typeCount, height);
+    this.offsetX = (width - this.cellSize * typeCount) / 2;
+    this.offsetY = (height - this.cellSize) / 2;
+
+    ctx.fillStyle = this.GRID_BACKGROUND_COLOR;
+    ctx.fillRect(0, 0, width, height);
+
+    for (let type = 0; type < typeCount; type++) {
+      this.drawCandy(ctx, { x: type, y: 0, type, special: null, scale: 1, opacity: 1, isHinted: false }, 0);
+    }
+  }
+
+  render(ctx: CanvasRenderingContext2D, width: number, height: number, model: RenderModel) {
+    this.gridWidth = model.gridWidth;
+    this.gridHeight = model.gridHeight;
+
+    // Calculate cell size dynamically to fit the canvas
+    const availableWidth = width - this.GRID_PADDING * 2;
+    const availableHeight = height - this.HEADER_HEIGHT - this.GRID_PADDING * 2;
+
+    // Calculate cell size based on available space
+    const cellSizeByWidth = availableWidth / model.gridWidth;
+    const cellSizeByHeight = availableHeight / model.gridHeight;
+    this.cellSize = Math.min(cellSizeByWidth, cellSizeByHeight, this.MAX_CELL_SIZE);
+
+    // Calculate offset to center the grid
+    const gridPixelWidth = model.gridWidth * this.cellSize;
+    const gridPixelHeight = model.gridHeight * this.cellSize;
+    this.offsetX = (width - gridPixelWidth) / 2;
+    this.offsetY = (height - gridPixelHeight) / 2 + this.HEADER_HEIGHT / 2;
+
+    // Draw background with Christmas theme
+    ctx.fillStyle = this.BACKGROUND_COLOR;
+    ctx.fillRect(0, 0, width, height);
+
+    // Draw title and stats (scale font with canvas size)
+    const fontSize = Math.max(this.TITLE_FONT_MIN, Math.min(this.TITLE_FONT_MAX, width / this.TITLE_FONT_SCALE));
+
+    ctx.fillStyle = this.TEXT_COLOR;
+    ctx.font = `bold ${fontSize}px Arial`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "bottom";
+    const stats = model.hud ? this.getStatsText(model.hud) : "";
+    if (stats) {
+      ctx.fillText(stats, width / 2, this.offsetY - this.STATS_MARGIN);
+    }
+
+    // Draw grid background
+    ctx.fillStyle = this.GRID_BACKGROUND_COLOR;
+    ctx.fillRect(this.offsetX, this.offsetY, gridPixelWidth, gridPixelHeight);
+
+    // Draw background image if loaded
+    if (this.imageLoaded && this.backgroundImage) {
+      this.drawBackgroundImage(ctx, model, gridPixelWidth, gridPixelHeight);
+    }
+
+    // Draw grid lines with fade out
+    ctx.save();
+    ctx.globalAlpha = model.gridOpacity;
+    ctx.strokeStyle = this.GRID_LINE_COLOR;
+    ctx.lineWidth = 1;
+    for (let x = 0; x <= model.gridWidth; x++) {
+      ctx.beginPath();
+      ctx.moveTo(this.offsetX + x * this.cellSize, this.offsetY);
+      ctx.lineTo(this.offsetX + x * this.cellSize, this.offsetY + gridPixelHeight);
+      ctx.stroke();
+    }
+    for (let y = 0; y <= model.gridHeight; y++) {
+      ctx.beginPath();
+      ctx.moveTo(this.offsetX, this.offsetY + y * this.cellSize);
+      ctx.lineTo(this.offsetX + gridPixelWidth, this.offsetY + y * this.cellSize);
+      ctx.stroke();
+    }
+    ctx.restore();
+
+    // Draw candies in the model's order (a dragged candy comes last)
+    for (const candy of model.candies) {
+      this.drawCandy(ctx, candy, model.hintTime);
+    }
+
+    // Draw overlay on hidden cells during reveal (fades out to show image)
+    if (model.coverOpacity > 0) {
+      ctx.save();
+      ctx.globalAlpha = model.coverOpacity;
+      ctx.fillStyle = this.GRID_BACKGROUND_COLOR;
+      for (let y = 0; y < model.gridHeight; y++) {
+        for (let x = 0; x < model.gridWidth; x++) {
+          if (!model.revealedCells[y][x]) {
+            ctx.fillRect(this.offsetX + x * this.cellSize, this.offsetY + y * this.cellSize, this.cellSize, this.cellSize);
+          }
+        }
+      }
+      ctx.restore();
+    }
+
+    // Draw selection
+    if (model.selected) {
+      const { x, y } = model.selected;
+      ctx.strokeStyle = this.SELECTION_COLOR;
+      ctx.lineWidth = this.SELECTION_LINE_WIDTH;
+      const inset = this.SELECTION_LINE_WIDTH / 2;
+      ctx.strokeRect(this.offsetX + x * this.cellSize + inset, this.offsetY + y * this.cellSize + inset, this.cellSize - this.SELECTION_LINE_WIDTH, this.cellSize - this.SELECTION_LINE_WIDTH);
+    }
+
+    // Draw keyboard cursor
+    if (model.cursor) {
+      const { x, y } = model.cursor;
+      ctx.save();
+      ctx.strokeStyle = this.CURSOR_COLOR;
+      ctx.lineWidth = this.CURSOR_LINE_WIDTH;
+      ctx.setLineDash([6, 4]);
+      const inset = this.SELECTION_LINE_WIDTH + this.CURSOR_LINE_WIDTH / 2;
+      ctx.strokeRect(this.offsetX + x * this.cellSize + inset, this.offsetY + y * this.cellSize + inset, this.cellSize - inset * 2, this.cellSize - inset * 2);
+      ctx.restore();
+    }
+
+    // Draw snow (only falls once the game is complete)
+    this.drawSnow(ctx, model, width, height);
+  }
+
+  private drawCandy(ctx: CanvasRenderingContext2D, candy: RenderCandy, hintTime: number) {
+    const centerX = this.offsetX + candy.x * this.cellSize + this.cellSize / 2;
+    const centerY = this.offsetY + candy.y * this.cellSize + this.cellSize / 2;
+    const radius = this.cellSize * 0.4 * candy.scale;
+    const scale = candy.scale * this.getHintScale(candy, hintTime);
+
+    ctx.save();
+    ctx.translate(centerX, centerY);
+    ctx.scale(scale, scale);
+
+    // Apply opacity (including fade out during reveal)
+    ctx.globalAlpha = candy.opacity;
+
+    // Colour bombs match every type, so they stay round in their own colour
+    const isColorBomb = candy.special === "colorBomb";
+    const baseColor = isColorBomb ? this.skin.colorBombColor : this.skin.colors[candy.type % this.skin.colors.length];
+    const shape = isColorBomb ? "ball" : this.skin.shapes[candy.type % this.skin.shapes.length];
+    const path = this.getShapePath(shape, radius);
+
+    if (this.skin.isGlossy) {
+      // Create radial gradient for shiny effect
+      const gradient = ctx.createRadialGradient(-radius * 0.3, -radius * 0.3, 0, 0, 0, radius);
+
+      // Add gradient stops for shiny ball effect
+      gradient.addColorStop(0, this.lightenColor(baseColor, 60)); // Bright highlight
+      gradient.addColorStop(0.3, this.lightenColor(baseColor, 30)); // Mid highlight
+      gradient.addColorStop(0.7, baseColor); // Base color
+      gradient.addColorStop(1, this.darkenColor(baseColor, 30)); // Shadow edge
+      ctx.fillStyle = gradient;
+    } else {
+      ctx.fillStyle = baseColor;
+    }
+    ctx.fill(path);
+
+    if (this.skin.isGlossy) {
+      // Add extra bright shine spot, kept inside the candy's outline
+      const shineGradient = ctx.createRadialGradient(-radius * 0.35, -radius * 0.35, 0, -radius * 0.35, -radius * 0.35, radius * 0.25);
+      shineGradient.addColorStop(0, "rgba(255, 255, 255, 0.8)");
+      shineGradient.addColorStop(0.5, "rgba(255, 255, 255, 0.4)");
+      shineGradient.addColorStop(1, "rgba(255, 255, 255, 0)");
+
+      ctx.save();
+      ctx.clip(path);
+      ctx.fillStyle = shineGradient;
+      ctx.beginPath();
+      ctx.arc(-radius * 0.35, -radius * 0.35, radius * 0.25, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.restore();
+    }
+
+    if (this.skin.outlineColor) {
+      ctx.strokeStyle = this.skin.outlineColor;
+      ctx.lineWidth = radius * this.OUTLINE_WIDTH;
+      ctx.lineJoin = "round";
+      ctx.stroke(path);
+    }
+
+    if (candy.special) {
+      this.drawSpecialMarking(ctx, candy.special, radius, path);
+    }
+
+    ctx.restore();
+  }
+
+  // Outline of a candy shape centred on the origin, fitting within the radius
+  private getShapePath(shape: CandyShape, radius: number): Path2D {
+    const path = new Path2D();
+    const r = radius;
+
+    // Sub-paths are all drawn clockwise so overlapping parts fill as one shape
+    switch (shape) {
+      case "ball":
+        path.arc(0, 0, r, 0, Math.PI * 2);
+        break;
+      case "star":
+        for (let i = 0; i < 10; i++) {
+          const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+          const distance = i % 2 === 0 ? r * 1.05 : r * 0.45;
+          path.lineTo(Math.cos(angle) * distance, Math.sin(angle) * distance + r * 0.08);
+        }
+        path.closePath();
+        break;
+      case "bell":
+        path.moveTo(0, -r);
+        path.bezierCurveTo(r * 0.55, -r, r * 0.55, -r * 0.3, r * 0.6, r * 0.2);
+        path.quadraticCurveTo(r * 0.65, r * 0.55, r * 0.95, r * 0.65);
+        path.lineTo(-r * 0.95, r * 0.65);
+        path.quadraticCurveTo(-r * 0.65, r * 0.55, -r * 0.6, r * 0.2);
+        path.bezierCurveTo(-r * 0.55, -r * 0.3, -r * 0.55, -r, 0, -r);
+        path.closePath();
+        // Clapper
+        path.moveTo(r * 0.18, r * 0.83);
+        path.arc(0, r * 0.83, r * 0.18, 0, Math.PI * 2);
+        break;
+      case "tree": {
+        // Three tiers and a trunk, as one outline
+        const points = [
+          [0, -1], [0.45, -0.35], [0.25, -0.35], [0.65, 0.25], [0.4, 0.25], [0.85, 0.75], [0.15, 0.75], [0.15, 1],
+          [-0.15, 1], [-0.15, 0.75], [-0.85, 0.75], [-0.4, 0.25], [-0.65, 0.25], [-0.25, -0.35], [-0.45, -0.35],
+        ];
+        for (const [x, y] of points) {
+          path.lineTo(x * r, y * r);
+        }
+        path.closePath();
+        break;
+      }
+      case "ornament":
+        // Bauble with a cap on top
+        path.arc(0, r * 0.15, r * 0.85, 0, Math.PI * 2);
+        path.rect(-r * 0.2, -r * 0.95, r * 0.4, r * 0.25);
+        break;
+      case "gingerbread":
+        path.arc(0, -r * 0.62, r * 0.32, 0, Math.PI * 2);
+        path.roundRect(-r * 0.9, -r * 0.3, r * 1.8, r * 0.3, r * 0.15); // Arms
+        path.roundRect(-r * 0.38, -r * 0.36, r * 0.76, r * 0.8, r * 0.2); // Body
+        path.roundRect(-r * 0.42, r * 0.2, r * 0.32, r * 0.8, r * 0.16); // Legs
+        path.roundRect(r * 0.1, r * 0.2, r * 0.32, r * 0.8, r * 0.16);
+        break;
+      case "present":
+        // Box with a bow on top
+        path.rect(-r * 0.8, -r * 0.5, r * 1.6, r * 1.35);
+        path.moveTo(-r * 0.03, -r * 0.72);
+        path.arc(-r * 0.25, -r * 0.72, r * 0.22, 0, Math.PI * 2);
+        path.moveTo(r * 0.47, -r * 0.72);
+        path.arc(r * 0.25, -r * 0.72, r * 0.22, 0, Math.PI * 2);
+        break;
+    }
+
+    return path;
+  }
+
+  // Decorate special candies on top of the base shape (context is already centered on the candy)
+  private drawSpecialMarking(ctx: CanvasRenderingContext2D, special: CandySpecial, radius: number, path: Path2D) {
+    ctx.save();
+
+    switch (special) {
+      case "stripedHorizontal":
+      case "stripedVertical": {
+        // Three stripes across the candy, clipped to its outline
+        ctx.clip(path);
+        if (special === "stripedVertical") {
+          ctx.rotate(Math.PI / 2);
+        }
+        ctx.strokeStyle = this.skin.markColor;
+        ctx.lineWidth = radius * 0.18;
+        for (const offset of [-0.5, 0, 0.5]) {
+          ctx.beginPath();
+          ctx.moveTo(-radius, offset * radius);
+          ctx.lineTo(radius, offset * radius);
+          ctx.stroke();
+        }
+        break;
+      }
+      case "wrapped": {
+        // Wrapper twists on both sides and a ring around the candy
+        ctx.fillStyle = this.skin.markColor;
+        for (const side of [-1, 1]) {
+          ctx.beginPath();
+          ctx.moveTo(side * radius * 0.9, 0);
+          ctx.lineTo(side * radius * 1.25, -radius * 0.4);
+          ctx.lineTo(side * radius * 1.25, radius * 0.4);
+          ctx.closePath();
+          ctx.fill();
+        }
+        ctx.strokeStyle = this.skin.markColor;
+        ctx.lineWidth = radius * 0.15;
+        ctx.beginPath();
+        ctx.arc(0, 0, radius * 0.75, 0, Math.PI * 2);
+        ctx.stroke();
+        break;
+      }
+      case "colorBomb": {
+        // Sprinkles in every candy colour
+        const sprinkleCount = 10;
+        for (let i = 0; i < sprinkleCount; i++) {
+          const angle = (i / sprinkleCount) * Math.PI * 2;
+          const distance = radius * (i % 2 === 0 ? 0.6 : 0.3);
+          ctx.save();
+          ctx.translate(Math.cos(angle) * distance, Math.sin(angle) * distance);
+          ctx.rotate(angle);
+          ctx.fillStyle = this.skin.colors[i % this.skin.colors.length];
+          ctx.fillRect(-radius * 0.12, -radius * 0.05, radius * 0.24, radius * 0.1);
+          ctx.restore();
+        }
+        break;
+      }
+    }
+
+    ctx.restore();
+  }
+
+  // Moves left and score progress shown above the grid
+  private getStatsText(hud: RenderHud): string {
+    const parts: string[] = [];
+    if (hud.movesLeft !== null) {
+      parts.push(`Moves: ${hud.movesLeft}`);
+    }
+    if (hud.targetScore > 0) {
+      parts.push(`Score: ${hud.points} / ${hud.targetScore}`);
+    }
+    return parts.join("   ");
+  }
+
+  // Pulse the two candies of the current hint
+  private getHintScale(candy: RenderCandy, hintTime: number): number {
+    if (!candy.isHinted) return 1;
+
+    return 1 + this.HINT_PULSE_AMOUNT * (1 - Math.cos(hintTime * this.HINT_PULSE_SPEED)) / 2;
+  }
+
+  // Helper function to lighten a color
+  private lightenColor(color: string, percent: number): string {
+    const num = parseInt(color.replace("#", ""), 16);
+    const amt = Math.round(2.55 * percent);
+    const R = Math.min(255, ((num >> 16) & 0xFF) + amt);
+    const G = Math.min(255, ((num >> 8) & 0xFF) + amt);
+    const B = Math.min(255, (num & 0xFF) + amt);
+    return `rgb(${R}, ${G}, ${B})`;
+  }
+
+  // Helper function to darken a color
+  private darkenColor(color: string, percent: number): string {
+    const num = parseInt(color.replace("#", ""), 16);
+    const amt = Math.round(2.55 * percent);
+    const R = Math.max(0, ((num >> 16) & 0xFF) - amt);
+    const G = Math.max(0, ((num >> 8) & 0xFF) - amt);
+    const B = Math.max(0, (num & 0xFF) - amt);
+    return `rgb(${R}, ${G}, ${B})`;
+  }
+
+  // Grayscale copy of the background at the given CSS size, rebuilt only when that size changes
+  private getGrayscaleImage(width: number, height: number): HTMLCanvasElement | null {
+    if (!this.backgroundImage || !this.imageLoaded) return null;
+
+    const dpr = window.devicePixelRatio || 1;
+    const pixelWidth = Math.max(1, Math.round(width * dpr));
+    const pixelHeight = Math.max(1, Math.round(height * dpr));
+    if (this.grayscaleImage && this.grayscaleImage.width === pixelWidth && this.grayscaleImage.height === pixelHeight) {
+      return this.grayscaleImage;
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = pixelWidth;
+    canvas.height = pixelHeight;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+
+    ctx.drawImage(this.backgroundImage, 0, 0, pixelWidth, pixelHeight);
+    const imageData = ctx.getImageData(0, 0, pixelWidth, pixelHeight);
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+      // Luminosity method
+      const gray = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      data[i] = gray;
+      data[i + 1] = gray;
+      data[i + 2] = gray;
+    }
+    ctx.putImageData(imageData, 0, 0);
+
+    this.grayscaleImage = canvas;
+    return canvas;
+  }
+
+  private drawBackgroundImage(ctx: CanvasRenderingContext2D, model: RenderModel, gridPixelWidth: number, gridPixelHeight: number) {
+    if (!this.backgroundImage) return;
+
+    ctx.save();
+
+    // Calculate scaling to cover the grid area
+    const scaleX = gridPixelWidth / this.backgroundImage.width;
+    const scaleY = gridPixelHeight / this.backgroundImage.height;
+    const scale = Math.max(scaleX, scaleY);
+
+    const scaledWidth = this.backgroundImage.width * scale;
+    const scaledHeight = this.backgroundImage.height * scale;
+
+    // Center the image
+    const imageX = this.offsetX + (gridPixelWidth - scaledWidth) / 2;
+    const imageY = this.offsetY + (gridPixelHeight - scaledHeight) / 2;
+
+    // During reveal animation, show entire image; otherwise only show revealed cells
+    if (model.showFullPhoto) {
+      // Show entire grid during reveal animation
+      ctx.beginPath();
+      ctx.rect(this.offsetX, this.offsetY, gridPixelWidth, gridPixelHeight);
+      ctx.clip();
+    } else {
+      // Create clipping path for revealed cells only
+      ctx.beginPath();
+      for (let y = 0; y < model.gridHeight; y++) {
+        for (let x = 0; x < model.gridWidth; x++) {
+          if (model.revealedCells[y][x]) {
+            ctx.rect(this.offsetX + x * this.cellSize, this.offsetY + y * this.cellSize, this.cellSize, this.cellSize);
+          }
+        }
+      }
+      ctx.clip();
+    }
+
+    // Blend from grayscale to colour as the reveal progresses: the colour photo is drawn over the
+    // cached grayscale copy with the progress as its opacity
+    const colorAmount = model.colorAmount;
+    if (colorAmount < 1) {
+      const grayscale = this.getGrayscaleImage(scaledWidth, scaledHeight);
+      if (grayscale) {
+        ctx.drawImage(grayscale, imageX, imageY, scaledWidth, scaledHeight);
+      }
+      ctx.globalAlpha = colorAmount;
+    }
+    if (colorAmount > 0) {
+      ctx.drawImage(this.backgroundImage, imageX, imageY, scaledWidth, scaledHeight);
+    }
+
+    ctx.restore();
+  }
+
+  private drawSnow(ctx: CanvasRenderingContext2D, model: RenderModel, width: number, height: number) {
+    if (model.snowflakes.length === 0) return;
+
+    ctx.save();
+
+    for (const snowflake of model.snowflakes) {
+      // Convert percentage position to pixels
+      const x = (snowflake.x / 100) * width;
+      const y = (snowflake.y / 100) * height;
+
+      ctx.globalAlpha = snowflake.opacity;
+      ctx.fillStyle = "#FFFFFF";
+      ctx.beginPath();
+      ctx.arc(x, y, snowflake.size, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    ctx.restore();
+  }
+}
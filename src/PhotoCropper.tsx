@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from "react";
+import { drawCrop, getCropRect, loadImage, MAX_CROP_ZOOM, type CropSettings } from "./imageCrop";
+import "./PhotoCropper.css";
+
+interface PhotoCropperProps {
+  source: Blob;
+  aspect: number; // Width / height of the board the photo is shown on
+  crop: CropSettings;
+  onChange: (crop: CropSettings) => void;
+}
+
+const PREVIEW_SIZE = 280; // Long side of the preview in CSS pixels
+
+function PhotoCropper({ source, aspect, crop, onChange }: PhotoCropperProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number; crop: CropSettings } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const previewWidth = aspect >= 1 ? PREVIEW_SIZE : Math.round(PREVIEW_SIZE * aspect);
+  const previewHeight = aspect >= 1 ? Math.round(PREVIEW_SIZE / aspect) : PREVIEW_SIZE;
+
+  useEffect(() => {
+    let isCurrent = true;
+    setImage(null);
+    setError(null);
+    loadImage(source).then(
+      (loaded) => isCurrent && setImage(loaded),
+      (loadError: Error) => isCurrent && setError(loadError.message)
+    );
+    return () => {
+      isCurrent = false;
+    };
+  }, [source]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !image) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = previewWidth * dpr;
+    canvas.height = previewHeight * dpr;
+    drawCrop(ctx, image, aspect, crop, canvas.width, canvas.height);
+  }, [image, aspect, crop, previewWidth, previewHeight]);
+
+  // Drag the photo around inside the frame
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY, crop };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !image) return;
+
+    // Convert the pointer movement from preview pixels to a fraction of the photo
+    const rect = getCropRect(image, aspect, drag.crop);
+    const scale = rect.width / previewWidth;
+    const centerX = drag.crop.centerX - ((event.clientX - drag.x) * scale) / image.width;
+    const centerY = drag.crop.centerY - ((event.clientY - drag.y) * scale) / image.height;
+    onChange({ ...drag.crop, centerX: Math.min(Math.max(centerX, 0), 1), centerY: Math.min(Math.max(centerY, 0), 1) });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  if (error) {
+    return <p className="cropper-error">{error}</p>;
+  }
+
+  return (
+    <div className="photo-cropper">
+      <canvas
+        ref={canvasRef}
+        className="cropper-preview"
+        style={{ width: previewWidth, height: previewHeight }}
+        aria-label="Cropped photo preview, drag to move the photo"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+      <label className="cropper-control">
+        Zoom
+        <input type="range" min={1} max={MAX_CROP_ZOOM} step={0.05} value={crop.zoom} onChange={(event) => onChange({ ...crop, zoom: Number(event.target.value) })} />
+      </label>
+      <label className="cropper-control">
+        Left / right
+        <input type="range" min={0} max={1} step={0.01} value={crop.centerX} onChange={(event) => onChange({ ...crop, centerX: Number(event.target.value) })} />
+      </label>
+      <label className="cropper-control">
+        Up / down
+        <input type="range" min={0} max={1} step={0.01} value={crop.centerY} onChange={(event) => onChange({ ...crop, centerY: Number(event.target.value) })} />
+      </label>
+    </div>
+  );
+}
+
+export default PhotoCropper;
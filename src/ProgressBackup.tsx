@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { createShareCode, exportProgress, importProgress, importShareCode } from "./storage";
+import type { Progress } from "./progress";
+import { downloadFile } from "./download";
+import "./ProgressBackup.css";
+
+interface ProgressBackupProps {
+  onImport: (progress: Progress) => void;
+  onBack: () => void;
+}
+
+const EXPORT_FILE_NAME = "advent-calendar-progress.json";
+
+function ProgressBackup({ onImport, onBack }: ProgressBackupProps) {
+  const [shareCode] = useState(createShareCode);
+  const [enteredCode, setEnteredCode] = useState("");
+  const [message, setMessage] = useState("");
+
+  const handleDownload = () => {
+    downloadFile(exportProgress(), EXPORT_FILE_NAME);
+  };
+
+  const handleImported = (progress: Progress | null) => {
+    if (!progress) {
+      setMessage("That doesn't look like calendar progress, nothing was changed.");
+      return;
+    }
+
+    onImport(progress);
+    setMessage(`Progress imported. ${progress.solvedDays.length} days solved.`);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    handleImported(importProgress(await file.text()));
+  };
+
+  const handleCodeSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    handleImported(importShareCode(enteredCode));
+  };
+
+  return (
+    <div className="progress-backup">
+      <div className="back-button-container">
+        <button className="back-button" onClick={onBack}>
+          Back
+        </button>
+      </div>
+      <h1 className="backup-title">Back Up Progress</h1>
+
+      <section className="backup-section">
+        <h2 className="backup-heading">Progress file</h2>
+        <p className="backup-text">Includes solved days and your best scores, moves and times.</p>
+        <div className="backup-actions">
+          <button type="button" className="backup-button" onClick={handleDownload}>
+            Download
+          </button>
+          <label className="backup-button">
+            Import file
+            <input type="file" accept="application/json,.json" className="visually-hidden" onChange={handleFileChange} />
+          </label>
+        </div>
+      </section>
+
+      <section className="backup-section">
+        <h2 className="backup-heading">Share code</h2>
+        <p className="backup-text">Carries only the solved days. Enter it on another device to open the same doors.</p>
+        <output className="backup-code">{shareCode}</output>
+        <form className="backup-actions" onSubmit={handleCodeSubmit}>
+          <input
+            type="text"
+            className="backup-input"
+            aria-label="Share code"
+            placeholder="ADV1-…"
+            autoComplete="off"
+            spellCheck={false}
+            value={enteredCode}
+            onChange={(event) => setEnteredCode(event.target.value)}
+          />
+          <button type="submit" className="backup-button" disabled={!enteredCode.trim()}>
+            Use code
+          </button>
+        </form>
+      </section>
+
+      <div className="backup-message" role="status" aria-live="polite">
+        {message}
+      </div>
+    </div>
+  );
+}
+
+export default ProgressBackup;
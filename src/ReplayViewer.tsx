@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Canvas } from "./Canvas";
+import { CandyCrushRenderer } from "./CandyCrushRenderer";
+import { MAX_FRAME_TIME, STEP_TIME } from "./CandyCrushCore";
+import { exportReplay, ReplayPlayer, type Replay } from "./replay";
+import { formatDuration } from "./progress";
+import { downloadFile } from "./download";
+import type { CandySkin } from "./skins";
+import "./ReplayViewer.css";
+
+interface ReplayViewerProps {
+  replay: Replay;
+  image: string;
+  skin: CandySkin;
+  onBack: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+// While playing, the position shown by the controls is updated every this many steps (a quarter of a
+// second) and whenever a move is made, rather than re-rendering them on every frame
+const STEP_UPDATE_INTERVAL = 15;
+
+function ReplayViewer({ replay, image, skin, onBack }: ReplayViewerProps) {
+  const [player] = useState(() => new ReplayPlayer(replay));
+  const [renderer] = useState(() => new CandyCrushRenderer(image, skin));
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const stepRef = useRef(0); // Step last shown by the controls
+  const lastTimeRef = useRef(0);
+  const isPlayingRef = useRef(isPlaying);
+  const speedRef = useRef(speed);
+
+  const showStep = useCallback((value: number) => {
+    stepRef.current = value;
+    setStep(value);
+  }, []);
+
+  useEffect(() => {
+    isPlayingRef.current = isPlaying;
+    speedRef.current = speed;
+  }, [isPlaying, speed]);
+
+  const handleDraw = useCallback(
+    (canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D, time: number) => {
+      const frameTime = lastTimeRef.current ? Math.min(time - lastTimeRef.current, MAX_FRAME_TIME) : 0;
+      lastTimeRef.current = time;
+
+      if (isPlayingRef.current) {
+        player.advance(frameTime, speedRef.current);
+        if (player.isFinished()) {
+          setIsPlaying(false);
+        }
+      }
+
+      const dpr = window.devicePixelRatio;
+      renderer.render(ctx, canvas.width / dpr, canvas.height / dpr, player.getRenderModel());
+
+      const current = player.getStep();
+      const shown = stepRef.current;
+      const madeMove = player.getMoveSteps().some((moveStep) => moveStep >= shown && moveStep < current);
+      if (current !== shown && (Math.abs(current - shown) >= STEP_UPDATE_INTERVAL || madeMove || player.isFinished())) {
+        showStep(current);
+      }
+    },
+    [player, renderer, showStep]
+  );
+
+  const moveSteps = player.getMoveSteps();
+  const movesMade = moveSteps.filter((moveStep) => moveStep < step).length;
+
+  const seek = (target: number) => {
+    player.seek(target);
+    showStep(player.getStep());
+  };
+
+  const handlePlayPause = () => {
+    if (!isPlaying && player.isFinished()) {
+      seek(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  // Jump to just before the previous or next move is made
+  const handlePreviousMove = () => {
+    setIsPlaying(false);
+    seek(moveSteps.filter((moveStep) => moveStep < player.getStep()).pop() ?? 0);
+  };
+
+  const handleNextMove = () => {
+    setIsPlaying(false);
+    seek(moveSteps.find((moveStep) => moveStep >= player.getStep()) ?? player.getDuration());
+  };
+
+  const handleExport = () => {
+    downloadFile(exportReplay(replay), `advent-calendar-replay-day-${replay.day}.json`);
+  };
+
+  const { score, moves, time } = replay.result;
+
+  return (
+    <div className="app-container">
+      <div className="back-button-container">
+        <button className="back-button" onClick={onBack}>
+          Back
+        </button>
+        <button className="back-button" onClick={handleExport}>
+          Export
+        </button>
+      </div>
+      <div className="day-number-display">
+        Day {replay.day} replay
+        <div className="day-caption">
+          {score} points in {moves} moves, {formatDuration(time)}
+        </div>
+      </div>
+      <div className="game-container">
+        <Canvas draw={handleDraw} />
+      </div>
+      <div className="replay-controls">
+        <button type="button" className="replay-button" onClick={handlePreviousMove} aria-label="Previous move">
+          ⏮
+        </button>
+        <button type="button" className="replay-button" onClick={handlePlayPause} aria-label={isPlaying ? "Pause" : "Play"}>
+          {isPlaying ? "⏸" : "▶"}
+        </button>
+        <button type="button" className="replay-button" onClick={handleNextMove} aria-label="Next move">
+          ⏭
+        </button>
+        <input
+          type="range"
+          className="replay-scrubber"
+          min={0}
+          max={player.getDuration()}
+          value={step}
+          aria-label="Replay position"
+          aria-valuetext={`Move ${movesMade} of ${moveSteps.length}, ${formatDuration(step * STEP_TIME)}`}
+          onChange={(event) => {
+            setIsPlaying(false);
+            seek(Number(event.target.value));
+          }}
+        />
+        <span className="replay-moves">
+          Move {movesMade} / {moveSteps.length}
+        </span>
+        <select className="replay-speed" value={speed} aria-label="Playback speed" onChange={(event) => setSpeed(Number(event.target.value))}>
+          {SPEEDS.map((option) => (
+            <option key={option} value={option}>
+              {option}×
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
+
+export default ReplayViewer;
@@ -0,0 +1,82 @@
+import { DAY_COUNT, formatDuration, type DayRecords } from "./progress";
+import "./SeasonSummary.css";
+
+interface SeasonSummaryProps {
+  solvedPuzzles: number[];
+  dayRecords: DayRecords;
+  onBack: () => void;
+}
+
+function SeasonSummary({ solvedPuzzles, dayRecords, onBack }: SeasonSummaryProps) {
+  // Days solved before records were kept have no stats, so totals only cover recorded days
+  const recordedDays = Object.keys(dayRecords)
+    .map(Number)
+    .sort((a, b) => a - b);
+  const records = recordedDays.map((day) => dayRecords[day]);
+
+  const totalScore = records.reduce((sum, record) => sum + record.bestScore, 0);
+  const totalMoves = records.reduce((sum, record) => sum + record.fewestMoves, 0);
+  const totalTime = records.reduce((sum, record) => sum + record.fastestTime, 0);
+
+  return (
+    <div className="season-summary">
+      <div className="back-button-container">
+        <button className="back-button" onClick={onBack}>
+          Back
+        </button>
+      </div>
+      <h1 className="summary-title">Season Summary</h1>
+
+      <div className="summary-totals">
+        <div className="summary-total">
+          <div className="summary-total-value">
+            {solvedPuzzles.length} / {DAY_COUNT}
+          </div>
+          <div className="summary-total-label">Days solved</div>
+        </div>
+        <div className="summary-total">
+          <div className="summary-total-value">{totalScore}</div>
+          <div className="summary-total-label">Total best score</div>
+        </div>
+        <div className="summary-total">
+          <div className="summary-total-value">{totalMoves}</div>
+          <div className="summary-total-label">Total moves</div>
+        </div>
+        <div className="summary-total">
+          <div className="summary-total-value">{formatDuration(totalTime)}</div>
+          <div className="summary-total-label">Total time</div>
+        </div>
+      </div>
+
+      {recordedDays.length > 0 && (
+        <table className="summary-table">
+          <thead>
+            <tr>
+              <th scope="col">Day</th>
+              <th scope="col">Best score</th>
+              <th scope="col">Fewest moves</th>
+              <th scope="col">Fastest time</th>
+              <th scope="col">Completed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recordedDays.map((day) => {
+              const record = dayRecords[day];
+              return (
+                <tr key={day}>
+                  <th scope="row">{day}</th>
+                  <td>{record.bestScore}</td>
+                  <td>{record.fewestMoves}</td>
+                  <td>{formatDuration(record.fastestTime)}</td>
+                  <td>{new Date(record.completedAt).toLocaleDateString()}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default SeasonSummary;
@@ -0,0 +1,93 @@
+import { useEffect, useRef } from "react";
+import { CandyCrushRenderer } from "./CandyCrushRenderer";
+import { CANDY_SKINS, type CandySkin } from "./skins";
+import type { AudioSettings } from "./audio";
+import "./Settings.css";
+
+interface SettingsProps {
+  skinId: string;
+  onSkinChange: (skinId: string) => void;
+  audioSettings: AudioSettings;
+  onAudioSettingsChange: (settings: AudioSettings) => void;
+  onBack: () => void;
+}
+
+// Size of a skin preview in CSS pixels, one candy per type
+const PREVIEW_WIDTH = 240;
+const PREVIEW_HEIGHT = 40;
+
+function SkinPreview({ skin }: { skin: CandySkin }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = PREVIEW_WIDTH * dpr;
+    canvas.height = PREVIEW_HEIGHT * dpr;
+    ctx.scale(dpr, dpr);
+    new CandyCrushRenderer(undefined, skin).renderSkinPreview(ctx, PREVIEW_WIDTH, PREVIEW_HEIGHT);
+  }, [skin]);
+
+  return <canvas ref={canvasRef} className="skin-preview" style={{ width: PREVIEW_WIDTH, height: PREVIEW_HEIGHT }} aria-hidden="true" />;
+}
+
+function Settings({ skinId, onSkinChange, audioSettings, onAudioSettingsChange, onBack }: SettingsProps) {
+  const canVibrate = typeof navigator.vibrate === "function";
+
+  return (
+    <div className="settings">
+      <div className="back-button-container">
+        <button className="back-button" onClick={onBack}>
+          Back
+        </button>
+      </div>
+      <h1 className="settings-title">Settings</h1>
+
+      <fieldset className="settings-section">
+        <legend className="settings-heading">Candies</legend>
+        {CANDY_SKINS.map((skin) => (
+          <label key={skin.id} className={`skin-option ${skin.id === skinId ? "selected" : ""}`}>
+            <input type="radio" name="candy-skin" value={skin.id} checked={skin.id === skinId} onChange={() => onSkinChange(skin.id)} />
+            <span className="skin-details">
+              <span className="skin-name">{skin.name}</span>
+              <span className="skin-description">{skin.description}</span>
+              <SkinPreview skin={skin} />
+            </span>
+          </label>
+        ))}
+      </fieldset>
+
+      <fieldset className="settings-section">
+        <legend className="settings-heading">Sound</legend>
+        <label className="settings-row">
+          <input type="checkbox" checked={!audioSettings.isMuted} onChange={(event) => onAudioSettingsChange({ ...audioSettings, isMuted: !event.target.checked })} />
+          Sound effects
+        </label>
+        <label className="settings-row">
+          Volume
+          <input
+            type="range"
+            className="settings-slider"
+            min={0}
+            max={1}
+            step={0.05}
+            value={audioSettings.volume}
+            disabled={audioSettings.isMuted}
+            onChange={(event) => onAudioSettingsChange({ ...audioSettings, volume: Number(event.target.value) })}
+          />
+        </label>
+        {canVibrate && (
+          <label className="settings-row">
+            <input type="checkbox" checked={audioSettings.haptics} onChange={(event) => onAudioSettingsChange({ ...audioSettings, haptics: event.target.checked })} />
+            Vibration
+          </label>
+        )}
+      </fieldset>
+    </div>
+  );
+}
+
+export default Settings;
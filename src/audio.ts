@@ -0,0 +1,170 @@
+// Sound effects and haptics
+// Short sounds synthesized with Web Audio (nothing to download) played in response to game events,
+// plus optional vibration on phones. Browsers only allow audio after the player has interacted with
+// the page, so the audio context is created on the first tap or key press.
+
+import type { CandyCrushGame } from "./CandyCrushGame";
+
+export type SoundName = "select" | "swap" | "invalid-swap" | "match" | "cascade" | "cell-reveal" | "reveal" | "snow";
+
+export interface AudioSettings {
+  volume: number; // 0 to 1
+  isMuted: boolean;
+  haptics: boolean; // Vibrate on supported phones
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { volume: 0.7, isMuted: false, haptics: true };
+
+interface Tone {
+  type: OscillatorType;
+  frequency: number; // Hz at the start of the tone
+  endFrequency?: number; // Hz to slide to by the end, for sweeps
+  delay: number; // Seconds after the sound starts
+  duration: number; // Seconds
+  volume: number; // Peak gain before the master volume
+}
+
+const SOUNDS: Record<SoundName, Tone[]> = {
+  select: [{ type: "sine", frequency: 660, delay: 0, duration: 0.06, volume: 0.15 }],
+  swap: [{ type: "triangle", frequency: 440, endFrequency: 660, delay: 0, duration: 0.1, volume: 0.2 }],
+  "invalid-swap": [{ type: "square", frequency: 200, endFrequency: 150, delay: 0, duration: 0.18, volume: 0.08 }],
+  match: [
+    { type: "sine", frequency: 523, delay: 0, duration: 0.15, volume: 0.25 }, // C5
+    { type: "sine", frequency: 784, delay: 0.04, duration: 0.15, volume: 0.15 }, // G5
+  ],
+  cascade: [
+    { type: "triangle", frequency: 659, delay: 0, duration: 0.15, volume: 0.22 }, // E5
+    { type: "triangle", frequency: 988, delay: 0.04, duration: 0.15, volume: 0.14 }, // B5
+  ],
+  "cell-reveal": [
+    { type: "sine", frequency: 1568, delay: 0, duration: 0.25, volume: 0.08 }, // G6
+    { type: "sine", frequency: 2093, delay: 0.05, duration: 0.2, volume: 0.06 }, // C7
+  ],
+  // Rising C major arpeggio
+  reveal: [523, 659, 784, 1047].map((frequency, i) => ({ type: "triangle", frequency, delay: i * 0.1, duration: 0.9, volume: 0.18 })),
+  // Soft falling bells
+  snow: [2093, 1760, 1568, 1319].map((frequency, i) => ({ type: "sine", frequency, delay: i * 0.15, duration: 0.8, volume: 0.1 })),
+};
+
+// Vibration patterns in milliseconds, sounds without one don't vibrate
+const HAPTICS: Partial<Record<SoundName, number | number[]>> = {
+  select: 5,
+  swap: 10,
+  "invalid-swap": [30, 40, 30],
+  match: 20,
+  cascade: 25,
+  reveal: [50, 50, 80],
+};
+
+const CASCADE_PITCH_STEP = 0.12; // Each cascade plays a little higher than the last
+const MAX_CASCADE_PITCH = 2;
+
+export class SoundEffects {
+  private readonly ATTACK_TIME = 0.01; // Seconds to fade a tone in, avoids clicks
+  private readonly SILENCE = 0.0001; // Exponential ramps can't reach 0
+
+  private context: AudioContext | null = null;
+  private output: GainNode | null = null; // Master volume
+  private settings: AudioSettings;
+
+  constructor(settings: AudioSettings = DEFAULT_AUDIO_SETTINGS) {
+    this.settings = settings;
+  }
+
+  setSettings(settings: AudioSettings) {
+    this.settings = settings;
+    this.applyVolume();
+  }
+
+  // Create or resume the audio context, only works while handling a user gesture
+  unlock() {
+    if (typeof AudioContext === "undefined") return;
+
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.output = this.context.createGain();
+      this.output.connect(this.context.destination);
+      this.applyVolume();
+    }
+    if (this.context.state === "suspended") {
+      void this.context.resume();
+    }
+  }
+
+  // Play a sound (and its vibration), pitch multiplies every frequency
+  play(name: SoundName, pitch: number = 1) {
+    this.vibrate(name);
+
+    const context = this.context;
+    if (!context || !this.output || context.state !== "running" || this.settings.isMuted || this.settings.volume === 0) return;
+
+    const now = context.currentTime;
+    for (const tone of SOUNDS[name]) {
+      const start = now + tone.delay;
+      const end = start + tone.duration;
+
+      const oscillator = context.createOscillator();
+      oscillator.type = tone.type;
+      oscillator.frequency.setValueAtTime(tone.frequency * pitch, start);
+      if (tone.endFrequency) {
+        oscillator.frequency.exponentialRampToValueAtTime(tone.endFrequency * pitch, end);
+      }
+
+      const gain = context.createGain();
+      gain.gain.setValueAtTime(this.SILENCE, start);
+      gain.gain.exponentialRampToValueAtTime(tone.volume, start + this.ATTACK_TIME);
+      gain.gain.exponentialRampToValueAtTime(this.SILENCE, end);
+
+      oscillator.connect(gain).connect(this.output);
+      oscillator.start(start);
+      oscillator.stop(end);
+    }
+  }
+
+  private vibrate(name: SoundName) {
+    const pattern = HAPTICS[name];
+    if (pattern === undefined || !this.settings.haptics || typeof navigator.vibrate !== "function") return;
+
+    navigator.vibrate(pattern);
+  }
+
+  private applyVolume() {
+    if (!this.output || !this.context) return;
+
+    this.output.gain.setValueAtTime(this.settings.isMuted ? 0 : this.settings.volume, this.context.currentTime);
+  }
+}
+
+// Unlock audio on the first tap, click or key press anywhere on the page, returns a cleanup function
+export function unlockAudioOnFirstGesture(sounds: SoundEffects): () => void {
+  const events = ["pointerup", "touchend", "keydown"] as const;
+
+  const removeListeners = () => events.forEach((event) => window.removeEventListener(event, handleGesture, true));
+  const handleGesture = () => {
+    sounds.unlock();
+    removeListeners();
+  };
+
+  events.forEach((event) => window.addEventListener(event, handleGesture, true));
+  return removeListeners;
+}
+
+// Play the game's sounds as its events happen, returns a function that stops them again
+export function playGameSounds(game: CandyCrushGame<unknown>, sounds: SoundEffects): () => void {
+  const unsubscribes = [
+    game.on("select", () => sounds.play("select")),
+    game.on("swap", () => sounds.play("swap")),
+    game.on("invalid-swap", () => sounds.play("invalid-swap")),
+    game.on("match", ({ cascade }) => {
+      if (cascade > 1) {
+        sounds.play("cascade", Math.min(1 + (cascade - 2) * CASCADE_PITCH_STEP, MAX_CASCADE_PITCH));
+      } else {
+        sounds.play("match");
+      }
+    }),
+    game.on("cell-revealed", () => sounds.play("cell-reveal")),
+    game.on("reveal-started", () => sounds.play("reveal")),
+    game.on("complete", () => sounds.play("snow")),
+  ];
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+}
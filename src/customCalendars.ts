@@ -0,0 +1,144 @@
+// Custom calendars built from the player's own photos
+// Calendars are kept in IndexedDB (photos are too big for localStorage) and can be exported as a
+// single bundle file: a calendar manifest with the photos embedded as data URLs.
+
+import { parseManifest, type CalendarManifest } from "./manifest";
+import { DAY_COUNT } from "./progress";
+
+export interface CustomCalendarDay {
+  image: Blob; // Photo, already cropped to the board's shape
+  caption: string;
+  message: string | null;
+}
+
+export interface CustomCalendar {
+  id: string;
+  title: string;
+  schedule: CalendarManifest["schedule"];
+  days: CustomCalendarDay[];
+  createdAt: string; // ISO date
+}
+
+const DATABASE_NAME = "advent-calendar";
+const DATABASE_VERSION = 1;
+const CALENDAR_STORE = "calendars";
+
+const BUNDLE_FORMAT = "advent-calendar-bundle";
+const BUNDLE_VERSION = 1;
+
+// ============================================
+// INDEXEDDB
+// ============================================
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(CALENDAR_STORE, { keyPath: "id" });
+    };
+    databasePromise = requestToPromise(request);
+    // Allow a later retry if the database couldn't be opened (e.g. private browsing)
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const getStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+  const database = await openDatabase();
+  return database.transaction(CALENDAR_STORE, mode).objectStore(CALENDAR_STORE);
+};
+
+export async function listCalendars(): Promise<CustomCalendar[]> {
+  const calendars = await requestToPromise((await getStore("readonly")).getAll() as IDBRequest<CustomCalendar[]>);
+  return calendars.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getCalendar(id: string): Promise<CustomCalendar | null> {
+  const calendar = await requestToPromise((await getStore("readonly")).get(id) as IDBRequest<CustomCalendar | undefined>);
+  return calendar ?? null;
+}
+
+export async function saveCalendar(calendar: CustomCalendar): Promise<void> {
+  await requestToPromise((await getStore("readwrite")).put(calendar));
+}
+
+export async function deleteCalendar(id: string): Promise<void> {
+  await requestToPromise((await getStore("readwrite")).delete(id));
+}
+
+export const createCalendarId = (): string => crypto.randomUUID();
+
+// ============================================
+// PLAYING
+// ============================================
+
+// Manifest for playing a custom calendar, pass it to releaseManifest when done to free the photos
+export function toManifest(calendar: CustomCalendar): CalendarManifest {
+  return {
+    title: calendar.title,
+    schedule: calendar.schedule,
+    days: calendar.days.map((day) => ({ image: URL.createObjectURL(day.image), caption: day.caption, message: day.message, level: {} })),
+  };
+}
+
+export function releaseManifest(manifest: CalendarManifest) {
+  manifest.days.forEach((day) => URL.revokeObjectURL(day.image));
+}
+
+// ============================================
+// BUNDLE FILES
+// ============================================
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export async function exportBundle(calendar: CustomCalendar): Promise<Blob> {
+  const days = await Promise.all(
+    calendar.days.map(async (day) => ({ image: await blobToDataUrl(day.image), caption: day.caption, ...(day.message !== null && { message: day.message }) }))
+  );
+  const bundle = { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, title: calendar.title, schedule: calendar.schedule, days };
+  return new Blob([JSON.stringify(bundle)], { type: "application/json" });
+}
+
+// Read a bundle file into a new calendar (not saved yet), throws with a readable message for bad files
+export async function importBundle(text: string): Promise<CustomCalendar> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't a calendar bundle");
+  }
+
+  const { format, version, ...manifestData } = (data ?? {}) as Record<string, unknown>;
+  if (format !== BUNDLE_FORMAT) throw new Error("This file isn't a calendar bundle");
+  if (typeof version !== "number" || version > BUNDLE_VERSION) throw new Error("This bundle was made with a newer version of the calendar");
+
+  const manifest = parseManifest(manifestData);
+  // Progress, the builder and the calendar grid all have a door for every day of DAY_COUNT
+  if (manifest.days.length !== DAY_COUNT) {
+    throw new Error(`This bundle has ${manifest.days.length} days, calendars need exactly ${DAY_COUNT}`);
+  }
+  if (manifest.days.some((day) => !day.image.startsWith("data:image/"))) {
+    throw new Error("This bundle is missing some of its photos");
+  }
+
+  const days = await Promise.all(
+    manifest.days.map(async (day) => ({ image: await (await fetch(day.image)).blob(), caption: day.caption, message: day.message }))
+  );
+  return { id: createCalendarId(), title: manifest.title, schedule: manifest.schedule, days, createdAt: new Date().toISOString() };
+}
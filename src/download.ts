@@ -0,0 +1,12 @@
+// File downloads for exports (progress backups, calendar bundles, replays)
+
+// Offer a file to save through the browser, text is saved as JSON
+export function downloadFile(contents: Blob | string, fileName: string) {
+  const blob = typeof contents === "string" ? new Blob([contents], { type: "application/json" }) : contents;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
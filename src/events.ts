@@ -0,0 +1,23 @@
+// Minimal typed event emitter
+// Events maps each event name to its payload type, e.g. { complete: { points: number } }.
+
+export type Listener<T> = (payload: T) => void;
+
+export class EventEmitter<Events> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  // Subscribe to an event, returns a function that unsubscribes again
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const listeners = (this.listeners[event] ??= new Set());
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    this.listeners[event]?.forEach((listener) => listener(payload));
+  }
+}
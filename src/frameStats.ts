@@ -0,0 +1,56 @@
+// Frame-time overlay for checking rendering performance on a device
+// Enabled with ?frametime in the URL. Shows the time between frames and the time spent updating
+// and drawing the game, averaged (and worst case) over the last second of frames.
+
+const FRAME_STATS_PARAM = "frametime";
+
+export function isFrameStatsEnabled(): boolean {
+  return new URLSearchParams(window.location.search).has(FRAME_STATS_PARAM);
+}
+
+export class FrameStats {
+  private readonly SAMPLE_COUNT = 60; // Frames averaged
+  private readonly FONT = "12px monospace";
+  private readonly TEXT_COLOR = "#F5F5DC";
+  private readonly BACKGROUND_COLOR = "rgba(0, 0, 0, 0.6)";
+  private readonly PADDING = 6;
+  private readonly LINE_HEIGHT = 15;
+
+  private frameTimes: number[] = [];
+  private workTimes: number[] = [];
+
+  // frameTime: milliseconds since the previous frame, workTime: milliseconds spent on this frame
+  record(frameTime: number, workTime: number) {
+    this.frameTimes.push(frameTime);
+    this.workTimes.push(workTime);
+    if (this.frameTimes.length > this.SAMPLE_COUNT) {
+      this.frameTimes.shift();
+      this.workTimes.shift();
+    }
+  }
+
+  // Draw the overlay in the bottom-left corner of the canvas (CSS pixels)
+  draw(ctx: CanvasRenderingContext2D, height: number) {
+    if (this.frameTimes.length === 0) return;
+
+    const lines = [this.describe("frame", this.frameTimes), this.describe("work ", this.workTimes)];
+
+    ctx.save();
+    ctx.font = this.FONT;
+    const width = Math.max(...lines.map((line) => ctx.measureText(line).width)) + this.PADDING * 2;
+    const boxHeight = lines.length * this.LINE_HEIGHT + this.PADDING * 2;
+    ctx.fillStyle = this.BACKGROUND_COLOR;
+    ctx.fillRect(0, height - boxHeight, width, boxHeight);
+
+    ctx.fillStyle = this.TEXT_COLOR;
+    ctx.textBaseline = "top";
+    lines.forEach((line, i) => ctx.fillText(line, this.PADDING, height - boxHeight + this.PADDING + i * this.LINE_HEIGHT));
+    ctx.restore();
+  }
+
+  private describe(label: string, samples: number[]): string {
+    const average = samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+    const worst = Math.max(...samples);
+    return `${label} ${average.toFixed(1).padStart(5)} ms  max ${worst.toFixed(1).padStart(5)} ms`;
+  }
+}
@@ -0,0 +1,68 @@
+// Photo cropping for custom calendars
+// The board draws its photo scaled to cover the grid, so photos are cropped to the grid's aspect ratio
+// up front and the player sees exactly the part that was picked.
+
+export interface CropSettings {
+  zoom: number; // 1 = largest crop that fits the photo
+  centerX: number; // Crop centre as a fraction of the photo width
+  centerY: number; // Crop centre as a fraction of the photo height
+}
+
+export const DEFAULT_CROP: CropSettings = { zoom: 1, centerX: 0.5, centerY: 0.5 };
+
+export const MAX_CROP_ZOOM = 3;
+
+const CROPPED_IMAGE_SIZE = 1024; // Long side of the saved photo in pixels
+const CROPPED_IMAGE_TYPE = "image/jpeg";
+const CROPPED_IMAGE_QUALITY = 0.9;
+
+export function loadImage(source: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(source);
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("The file could not be read as an image"));
+    };
+    image.src = url;
+  });
+}
+
+// Source rectangle of the photo to show for an aspect ratio (width / height) and crop
+export function getCropRect(image: HTMLImageElement, aspect: number, crop: CropSettings) {
+  // Largest rectangle of the right shape that fits, shrunk by the zoom
+  const fitWidth = Math.min(image.width, image.height * aspect);
+  const width = fitWidth / crop.zoom;
+  const height = width / aspect;
+
+  // Keep the crop inside the photo
+  const x = Math.min(Math.max(crop.centerX * image.width - width / 2, 0), image.width - width);
+  const y = Math.min(Math.max(crop.centerY * image.height - height / 2, 0), image.height - height);
+  return { x, y, width, height };
+}
+
+export function drawCrop(ctx: CanvasRenderingContext2D, image: HTMLImageElement, aspect: number, crop: CropSettings, width: number, height: number) {
+  const rect = getCropRect(image, aspect, crop);
+  ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, width, height);
+}
+
+// Render the cropped photo to a new, reasonably sized image file
+export async function cropImage(image: HTMLImageElement, aspect: number, crop: CropSettings): Promise<Blob> {
+  const width = aspect >= 1 ? CROPPED_IMAGE_SIZE : Math.round(CROPPED_IMAGE_SIZE * aspect);
+  const height = aspect >= 1 ? Math.round(CROPPED_IMAGE_SIZE / aspect) : CROPPED_IMAGE_SIZE;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+
+  drawCrop(ctx, image, aspect, crop, width, height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("The photo could not be saved"))), CROPPED_IMAGE_TYPE, CROPPED_IMAGE_QUALITY);
+  });
+}
@@ -0,0 +1,30 @@
+// Per-day level configuration
+// Puzzles ramp up in difficulty from Day 1 to Day 24.
+
+export interface LevelConfig {
+  gridWidth: number;
+  gridHeight: number;
+  candyTypeCount: number; // Number of distinct candy colours (up to 6)
+  revealThreshold: number; // Fraction of cells that must be revealed to trigger the full reveal
+  moveLimit: number | null; // Maximum number of moves, null for unlimited
+  targetScore: number; // Points needed before the full reveal can start
+  allowFreeSwaps: boolean; // Accept swaps that don't create a match (for younger players)
+  undoLimit: number; // Moves that can be taken back per game, 0 for none
+}
+
+// Each tier applies from its first day until the next tier starts
+const LEVEL_TIERS: { fromDay: number; config: LevelConfig }[] = [
+  // Warm-up days: small board, few colours, free swaps for younger players
+  { fromDay: 1, config: { gridWidth: 6, gridHeight: 6, candyTypeCount: 4, revealThreshold: 0.4, moveLimit: null, targetScore: 0, allowFreeSwaps: true, undoLimit: 5 } },
+  { fromDay: 4, config: { gridWidth: 7, gridHeight: 7, candyTypeCount: 4, revealThreshold: 0.45, moveLimit: 25, targetScore: 300, allowFreeSwaps: false, undoLimit: 3 } },
+  { fromDay: 9, config: { gridWidth: 8, gridHeight: 8, candyTypeCount: 5, revealThreshold: 0.5, moveLimit: 25, targetScore: 600, allowFreeSwaps: false, undoLimit: 3 } },
+  { fromDay: 17, config: { gridWidth: 8, gridHeight: 8, candyTypeCount: 5, revealThreshold: 0.6, moveLimit: 30, targetScore: 900, allowFreeSwaps: false, undoLimit: 2 } },
+  // Final stretch: bigger board with an extra colour
+  { fromDay: 21, config: { gridWidth: 9, gridHeight: 9, candyTypeCount: 6, revealThreshold: 0.6, moveLimit: 40, targetScore: 1200, allowFreeSwaps: false, undoLimit: 2 } },
+];
+
+// Settings for a day, with any overrides from the calendar manifest applied on top of its tier
+export function getLevelConfig(day: number, overrides: Partial<LevelConfig> = {}): LevelConfig {
+  const tier = LEVEL_TIERS.filter((candidate) => candidate.fromDay <= day).pop() ?? LEVEL_TIERS[0];
+  return { ...tier.config, ...overrides };
+}
@@ -0,0 +1,31 @@
+// Manifest tests
+
+import { describe, expect, it } from "vitest";
+import { ManifestError, parseManifest } from "./manifest";
+
+const createManifest = (dayCount: number) => ({
+  title: "Test calendar",
+  schedule: { year: 2025, startMonth: 12, startDay: 1, timeZone: null },
+  days: Array.from({ length: dayCount }, (_, i) => ({ image: `https://example.com/${i + 1}.jpg`, caption: `Day ${i + 1}` })),
+});
+
+describe("parseManifest", () => {
+  it("reads a calendar with a door for every day of the month", () => {
+    expect(parseManifest(createManifest(31)).days).toHaveLength(31);
+  });
+
+  it("rejects a calendar without days", () => {
+    expect(() => parseManifest(createManifest(0))).toThrow(ManifestError);
+  });
+
+  it("rejects a calendar with more days than a month has", () => {
+    expect(() => parseManifest(createManifest(32))).toThrow("Invalid calendar manifest at days: expected at most 31 days, got 32");
+  });
+
+  it("rejects a level setting out of range", () => {
+    const manifest = createManifest(1);
+    expect(() => parseManifest({ ...manifest, days: [{ ...manifest.days[0], level: { candyTypeCount: 9 } }] })).toThrow(
+      "Invalid calendar manifest at days[0].level.candyTypeCount: expected an integer from 3 to 6"
+    );
+  });
+});
@@ -0,0 +1,146 @@
+// Calendar manifest
+// The calendar's title, schedule and days (photo, caption, message and level tweaks) are data in
+// calendar.json. It's validated when the app starts so a typo fails loudly instead of half-working.
+
+import type { LevelConfig } from "./levels";
+import type { CalendarSchedule } from "./schedule";
+import calendarData from "./calendar.json";
+import { isRecord } from "./validation";
+
+export interface CalendarDay {
+  image: string; // Resolved image URL
+  caption: string; // Short line shown with the day's puzzle
+  message: string | null; // Personal message shown once the day is solved
+  level: Partial<LevelConfig>; // Overrides for the day's default level settings
+}
+
+export interface CalendarManifest {
+  title: string;
+  schedule: Omit<CalendarSchedule, "dayCount">;
+  days: CalendarDay[];
+}
+
+export class ManifestError extends Error {
+  constructor(path: string, problem: string) {
+    super(`Invalid calendar manifest at ${path}: ${problem}`);
+    this.name = "ManifestError";
+  }
+}
+
+// Photos bundled with the app, referenced in the manifest relative to src/assets (e.g. "fotos/1.webp")
+const BUNDLED_IMAGES = import.meta.glob<string>("./assets/**/*.{webp,jpg,jpeg,png,gif}", { eager: true, import: "default" });
+
+// One door per day of a month at most
+const MAX_DAY_COUNT = 31;
+
+// Images can also be absolute URLs, e.g. photos served from public/ or another host
+const EXTERNAL_IMAGE = /^(https?:|data:|blob:|\/)/;
+
+const isIntegerInRange = (value: unknown, min: number, max: number): boolean => Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+// Checks for each level setting, mirroring the limits the game supports (also used for replays)
+export const LEVEL_CHECKS: Record<keyof LevelConfig, [(value: unknown) => boolean, string]> = {
+  gridWidth: [(value) => isIntegerInRange(value, 3, 12), "an integer from 3 to 12"],
+  gridHeight: [(value) => isIntegerInRange(value, 3, 12), "an integer from 3 to 12"],
+  candyTypeCount: [(value) => isIntegerInRange(value, 3, 6), "an integer from 3 to 6"],
+  revealThreshold: [(value) => typeof value === "number" && value > 0 && value <= 1, "a fraction above 0 and up to 1"],
+  moveLimit: [(value) => value === null || isIntegerInRange(value, 1, Infinity), "a positive integer or null"],
+  targetScore: [(value) => isIntegerInRange(value, 0, Infinity), "a non-negative integer"],
+  allowFreeSwaps: [(value) => typeof value === "boolean", "true or false"],
+  undoLimit: [(value) => isIntegerInRange(value, 0, Infinity), "a non-negative integer"],
+};
+
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const requireObject = (value: unknown, path: string): Record<string, unknown> => {
+  if (!isRecord(value)) throw new ManifestError(path, "expected an object");
+  return value;
+};
+
+const requireString = (value: unknown, path: string, allowEmpty: boolean = false): string => {
+  if (typeof value !== "string" || (!allowEmpty && value.trim() === "")) {
+    throw new ManifestError(path, allowEmpty ? "expected a string" : "expected a non-empty string");
+  }
+  return value;
+};
+
+const requireInteger = (value: unknown, path: string, min: number, max: number): number => {
+  if (!isIntegerInRange(value, min, max)) throw new ManifestError(path, `expected an integer from ${min} to ${max}`);
+  return value as number;
+};
+
+const parseSchedule = (value: unknown): CalendarManifest["schedule"] => {
+  const schedule = requireObject(value, "schedule");
+
+  const timeZone = schedule.timeZone ?? null;
+  if (timeZone !== null && (typeof timeZone !== "string" || !isValidTimeZone(timeZone))) {
+    throw new ManifestError("schedule.timeZone", "expected an IANA timezone such as \"Europe/Berlin\", or null for device time");
+  }
+
+  return {
+    year: requireInteger(schedule.year, "schedule.year", 1970, 9999),
+    startMonth: requireInteger(schedule.startMonth, "schedule.startMonth", 1, 12),
+    startDay: requireInteger(schedule.startDay, "schedule.startDay", 1, 31),
+    timeZone,
+  };
+};
+
+const parseLevel = (value: unknown, path: string): Partial<LevelConfig> => {
+  if (value === undefined) return {};
+
+  const level = requireObject(value, path);
+  for (const [key, setting] of Object.entries(level)) {
+    const check = LEVEL_CHECKS[key as keyof LevelConfig];
+    if (!check) throw new ManifestError(`${path}.${key}`, `unknown level setting, expected one of ${Object.keys(LEVEL_CHECKS).join(", ")}`);
+    if (!check[0](setting)) throw new ManifestError(`${path}.${key}`, `expected ${check[1]}`);
+  }
+  return level as Partial<LevelConfig>;
+};
+
+const resolveImage = (value: unknown, path: string): string => {
+  const image = requireString(value, path);
+  if (EXTERNAL_IMAGE.test(image)) return image;
+
+  const bundled = BUNDLED_IMAGES[`./assets/${image}`];
+  if (!bundled) throw new ManifestError(path, `no image "${image}" in src/assets`);
+  return bundled;
+};
+
+const parseDay = (value: unknown, index: number): CalendarDay => {
+  const path = `days[${index}]`;
+  const day = requireObject(value, path);
+
+  return {
+    image: resolveImage(day.image, `${path}.image`),
+    caption: requireString(day.caption, `${path}.caption`, true),
+    message: day.message === undefined || day.message === null ? null : requireString(day.message, `${path}.message`, true),
+    level: parseLevel(day.level, `${path}.level`),
+  };
+};
+
+export function parseManifest(data: unknown): CalendarManifest {
+  const manifest = requireObject(data, "(root)");
+
+  if (!Array.isArray(manifest.days) || manifest.days.length === 0) {
+    throw new ManifestError("days", "expected a non-empty list of days");
+  }
+  if (manifest.days.length > MAX_DAY_COUNT) {
+    throw new ManifestError("days", `expected at most ${MAX_DAY_COUNT} days, got ${manifest.days.length}`);
+  }
+
+  return {
+    title: requireString(manifest.title, "title"),
+    schedule: parseSchedule(manifest.schedule),
+    days: manifest.days.map(parseDay),
+  };
+}
+
+// The calendar that ships with the app
+export const CALENDAR: CalendarManifest = parseManifest(calendarData);
@@ -0,0 +1,60 @@
+// Player progress: solved days and per-day completion records
+
+import { CALENDAR_SCHEDULE } from "./schedule";
+
+export const DAY_COUNT = CALENDAR_SCHEDULE.dayCount; // Doors in the calendar
+
+export interface DayRecord {
+  bestScore: number;
+  fewestMoves: number;
+  fastestTime: number; // Milliseconds of play time
+  completedAt: string; // ISO date of the first completion
+}
+
+export type DayRecords = Record<number, DayRecord>;
+
+export interface Progress {
+  solvedDays: number[];
+  dayRecords: DayRecords;
+}
+
+export interface GameResult {
+  score: number;
+  moves: number;
+  time: number; // Milliseconds of play time
+}
+
+export const createEmptyProgress = (): Progress => ({ solvedDays: [], dayRecords: {} });
+
+// Merge a finished game into a day's record, keeping the best of each stat
+export const mergeDayRecord = (previous: DayRecord | undefined, result: GameResult, completedAt: string = new Date().toISOString()): DayRecord => {
+  if (!previous) {
+    return { bestScore: result.score, fewestMoves: result.moves, fastestTime: result.time, completedAt };
+  }
+
+  return {
+    bestScore: Math.max(previous.bestScore, result.score),
+    fewestMoves: Math.min(previous.fewestMoves, result.moves),
+    fastestTime: Math.min(previous.fastestTime, result.time),
+    completedAt: previous.completedAt < completedAt ? previous.completedAt : completedAt,
+  };
+};
+
+// Combine two progress snapshots (e.g. when importing onto a device that already has some days solved)
+export const mergeProgress = (current: Progress, incoming: Progress): Progress => {
+  const solvedDays = Array.from(new Set([...current.solvedDays, ...incoming.solvedDays])).sort((a, b) => a - b);
+  const dayRecords: DayRecords = { ...current.dayRecords };
+  for (const [day, record] of Object.entries(incoming.dayRecords)) {
+    const result = { score: record.bestScore, moves: record.fewestMoves, time: record.fastestTime };
+    dayRecords[Number(day)] = mergeDayRecord(dayRecords[Number(day)], result, record.completedAt);
+  }
+  return { solvedDays, dayRecords };
+};
+
+// Format milliseconds as m:ss
+export const formatDuration = (time: number): string => {
+  const totalSeconds = Math.round(time / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
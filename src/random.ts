@@ -0,0 +1,20 @@
+// Seeded pseudo-random number generation
+
+export type RandomSource = () => number;
+
+// Mulberry32: small, fast 32-bit PRNG that returns floats in [0, 1)
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Derive a stable seed for a calendar day so everyone gets the same board
+export function seedForDay(day: number, year: number = 2025): number {
+  return year * 1000 + day;
+}
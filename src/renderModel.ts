@@ -0,0 +1,49 @@
+// Render model and renderer interface
+// The core describes each frame as plain data (RenderModel) and a GameRenderer draws it, so the
+// drawing can be swapped (Canvas 2D, WebGL, DOM/SVG, thumbnails) without touching the game rules.
+
+import type { CandySpecial, GridPosition, Snowflake } from "./CandyCrushCore";
+
+export interface RenderCandy {
+  x: number; // Drawn position in cells, between cells while moving
+  y: number;
+  type: number; // Colour index
+  special: CandySpecial | null;
+  scale: number; // Shrinks to 0 while the candy is removed
+  opacity: number; // Includes the fade-in of new candies and the fade-out during the reveal
+  isHinted: boolean; // Part of the suggested move, pulses with hintTime
+}
+
+// Moves left and score progress shown with the board
+export interface RenderHud {
+  movesLeft: number | null; // null when the day has no move limit
+  points: number;
+  targetScore: number; // 0 when the day has no target
+  revealPercentage: number;
+}
+
+export interface RenderModel {
+  gridWidth: number;
+  gridHeight: number;
+  candies: RenderCandy[]; // In drawing order, a dragged candy comes last so it stays on top
+  selected: GridPosition | null;
+  cursor: GridPosition | null; // Keyboard cursor, null when hidden
+  hintTime: number; // Simulation steps since the hint appeared
+  revealedCells: boolean[][]; // Cells where the photo shows through
+  showFullPhoto: boolean; // The whole photo shows during the final reveal, not just revealed cells
+  colorAmount: number; // 0 = grayscale photo, 1 = full colour
+  gridOpacity: number; // Grid lines, fade out during the reveal
+  coverOpacity: number; // Cover drawn over the candies on unrevealed cells, only during the reveal
+  snowflakes: Snowflake[]; // Particles, falling once the day is complete
+  hud: RenderHud | null; // null once the day is complete
+}
+
+// Draws render models onto a surface. CandyCrushRenderer is the Canvas 2D implementation.
+export interface GameRenderer<Surface = CanvasRenderingContext2D> {
+  // Draw a frame, width and height are the surface size in CSS pixels
+  render(surface: Surface, width: number, height: number, model: RenderModel): void;
+  // Grid cell under a point in CSS pixels, from the last rendered layout
+  cellAt(x: number, y: number): GridPosition | null;
+  // Size of a grid cell in CSS pixels in the last rendered layout
+  getCellSize(): number;
+}
@@ -0,0 +1,115 @@
+// Replay tests
+// Games are played on a headless core with the moves the core suggests, then played back.
+
+import { describe, expect, it } from "vitest";
+import { CandyCrushCore } from "./CandyCrushCore";
+import { getLevelConfig, type LevelConfig } from "./levels";
+import { parseReplay, REPLAY_VERSION, ReplayPlayer, type Replay, type ReplayAction } from "./replay";
+import type { RenderModel } from "./renderModel";
+
+const MAX_STEPS = 10000;
+const SEED = 1234;
+const LEVEL: LevelConfig = { ...getLevelConfig(10), moveLimit: null, revealThreshold: 1, targetScore: 0 };
+
+function settle(core: CandyCrushCore) {
+  for (let i = 0; i < MAX_STEPS && core.isBusy(); i++) {
+    core.update();
+  }
+}
+
+// Play the suggested move a number of times, undoing after the moves listed in undoAfter
+function playGame(moveCount: number, undoAfter: number[] = []): { core: CandyCrushCore; replay: Replay } {
+  const { gridWidth, gridHeight, ...level } = LEVEL;
+  const core = new CandyCrushCore(gridWidth, gridHeight, false, { ...level, seed: SEED });
+  const moves: ReplayAction[] = [];
+
+  for (let i = 0; i < moveCount; i++) {
+    settle(core);
+    const move = core.findMove()!;
+    moves.push({ ...move, step: core.getStepCount() });
+    core.applySwap(move);
+    settle(core);
+
+    if (undoAfter.includes(i)) {
+      moves.push({ undo: true, step: core.getStepCount() });
+      core.undo();
+      settle(core);
+    }
+  }
+
+  const state = core.getState();
+  const replay: Replay = {
+    version: REPLAY_VERSION,
+    day: 10,
+    seed: SEED,
+    level: LEVEL,
+    sessions: [{ start: null, moves }],
+    result: { score: state.points, moves: state.tries, time: 60000 },
+    recordedAt: "2025-12-10T12:00:00.000Z",
+  };
+  return { core, replay };
+}
+
+const boardOf = (model: RenderModel) => ({
+  candies: model.candies.map(({ x, y, type, special }) => ({ x, y, type, special })),
+  revealedCells: model.revealedCells,
+});
+
+describe("ReplayPlayer", () => {
+  it("ends on the board the game ended on", () => {
+    const { core, replay } = playGame(8);
+    const player = new ReplayPlayer(replay);
+    player.seek(player.getDuration());
+
+    expect(player.isFinished()).toBe(true);
+    expect(boardOf(player.getRenderModel())).toEqual(boardOf(core.getRenderModel()));
+  });
+
+  it("plays undos back", () => {
+    const { core, replay } = playGame(6, [1, 4]);
+    const player = new ReplayPlayer(replay);
+    player.seek(player.getDuration());
+
+    expect(core.getState().undosUsed).toBe(2);
+    expect(player.getMoveSteps()).toHaveLength(8);
+    expect(boardOf(player.getRenderModel())).toEqual(boardOf(core.getRenderModel()));
+  });
+
+  it("gives the same frames when seeking back", () => {
+    const { replay } = playGame(4);
+    const player = new ReplayPlayer(replay);
+    const middle = Math.floor(player.getDuration() / 2);
+
+    player.seek(middle);
+    const first = boardOf(player.getRenderModel());
+    player.seek(player.getDuration());
+    player.seek(middle);
+    expect(boardOf(player.getRenderModel())).toEqual(first);
+  });
+});
+
+describe("parseReplay", () => {
+  const { replay } = playGame(2);
+  const roundTrip = (value: unknown) => parseReplay(JSON.parse(JSON.stringify(value)));
+
+  it("reads a replay back", () => {
+    expect(roundTrip(replay)).toEqual(replay);
+  });
+
+  it("reads replays from before undo existed", () => {
+    expect(roundTrip({ ...replay, version: 1, level: { ...replay.level, undoLimit: undefined } })?.level.undoLimit).toBe(0);
+  });
+
+  it.each([
+    ["a newer version", { version: REPLAY_VERSION + 1 }],
+    ["a missing level setting", { level: { ...LEVEL, candyTypeCount: undefined } }],
+    ["a level setting out of range", { level: { ...LEVEL, candyTypeCount: 40 } }],
+    ["a level setting of the wrong type", { level: { ...LEVEL, moveLimit: "10" } }],
+    ["a missing result", { result: null }],
+    ["a result that isn't a number", { result: { score: "100", moves: 2, time: 1000 } }],
+    ["a negative result", { result: { score: 100, moves: -2, time: 1000 } }],
+    ["a damaged move", { sessions: [{ start: null, moves: [{ step: 1, from: { x: 0 } }] }] }],
+  ])("rejects a replay with %s", (_, change) => {
+    expect(roundTrip({ ...replay, ...change })).toBeNull();
+  });
+});
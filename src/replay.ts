@@ -0,0 +1,256 @@
+// Game replays
+// The core is deterministic: with the day's seed and level, the board only depends on the order of
+// accepted swaps and undos, since input is only taken on a settled board. A replay therefore only
+// stores those, plus the step each was made on so playback keeps the player's pace.
+
+import { CandyCrushCore, STEP_TIME, type GridPosition, type SavedGame, type Swap } from "./CandyCrushCore";
+import type { CandyCrushGame } from "./CandyCrushGame";
+import type { LevelConfig } from "./levels";
+import { LEVEL_CHECKS } from "./manifest";
+import type { GameResult } from "./progress";
+import type { RenderModel } from "./renderModel";
+import { isRecord } from "./validation";
+
+export const REPLAY_VERSION = 2; // 2: undos
+
+export interface ReplayMove extends Swap {
+  step: number; // Steps into the session when the swap was made
+}
+
+export interface ReplayUndo {
+  step: number;
+  undo: true;
+}
+
+export type ReplayAction = ReplayMove | ReplayUndo;
+
+// Moves made in one sitting. A day resumed from a saved board starts a new session, because the
+// resumed game reseeds its random source.
+export interface ReplaySession {
+  start: SavedGame | null; // Board the session resumed, null for the day's seeded board
+  moves: ReplayAction[]; // Swaps and undos, in order
+}
+
+export interface Replay {
+  version: number;
+  day: number;
+  seed: number;
+  level: LevelConfig;
+  sessions: ReplaySession[];
+  result: GameResult;
+  recordedAt: string; // ISO date the day was solved
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+const isNonNegativeInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isNonNegativeNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+const isPosition = (value: unknown): value is GridPosition => isRecord(value) && isNonNegativeInteger(value.x) && isNonNegativeInteger(value.y);
+
+const isAction = (value: unknown): value is ReplayAction =>
+  isRecord(value) && isNonNegativeInteger(value.step) && (value.undo === true || (isPosition(value.from) && isPosition(value.to)));
+
+const isSavedGame = (value: unknown): value is SavedGame =>
+  isRecord(value) && Array.isArray(value.grid) && Array.isArray(value.revealedCells) && typeof value.points === "number" && typeof value.tries === "number";
+
+const isSession = (value: unknown): value is ReplaySession =>
+  isRecord(value) && (value.start === null || isSavedGame(value.start)) && Array.isArray(value.moves) && value.moves.every(isAction);
+
+// Every setting present and within the limits a calendar manifest allows
+const isLevel = (value: unknown): value is LevelConfig => isRecord(value) && Object.entries(LEVEL_CHECKS).every(([key, [check]]) => check(value[key]));
+
+const isResult = (value: unknown): value is GameResult =>
+  isRecord(value) && isNonNegativeNumber(value.score) && isNonNegativeNumber(value.moves) && isNonNegativeNumber(value.time);
+
+// Sessions stored with an in-progress game, empty if they can't be read
+export function parseReplaySessions(value: unknown): ReplaySession[] {
+  return Array.isArray(value) && value.every(isSession) ? value : [];
+}
+
+// Replay from storage or a file, null if it isn't one this version can play
+export function parseReplay(data: unknown): Replay | null {
+  // Older versions are a subset of the current format
+  if (!isRecord(data) || !isNonNegativeInteger(data.version) || data.version < 1 || data.version > REPLAY_VERSION) return null;
+
+  const { version, day, seed, sessions, result, recordedAt } = data;
+  // Version 1 replays were recorded before undo existed
+  const level = version === 1 && isRecord(data.level) ? { undoLimit: 0, ...data.level } : data.level;
+  if (!isNonNegativeInteger(day) || typeof seed !== "number" || !isLevel(level) || !isResult(result) || typeof recordedAt !== "string") return null;
+  if (!Array.isArray(sessions) || !sessions.every(isSession)) return null;
+
+  return { version, day, seed, level, sessions, result, recordedAt };
+}
+
+export function exportReplay(replay: Replay): string {
+  return JSON.stringify(replay, null, 2);
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+// Records the swaps of a game as it's played
+export class ReplayRecorder {
+  private sessions: ReplaySession[];
+  private current: ReplaySession;
+
+  // previousSessions: sessions stored with the saved game being resumed (start), if any
+  constructor(game: CandyCrushGame<unknown>, start: SavedGame | null, previousSessions: ReplaySession[] = []) {
+    // Keep only the board, not whatever else was stored with it
+    const board = start && { grid: start.grid, revealedCells: start.revealedCells, points: start.points, tries: start.tries, undosUsed: start.undosUsed };
+    this.current = { start: board, moves: [] };
+    this.sessions = start ? [...previousSessions, this.current] : [this.current];
+    game.on("swap", (swap) => this.current.moves.push({ ...swap, step: game.getStepCount() }));
+    game.on("undo", () => this.current.moves.push({ undo: true, step: game.getStepCount() }));
+  }
+
+  // Sessions so far, to store with the saved game
+  getSessions(): ReplaySession[] {
+    return this.sessions.map((session) => ({ start: session.start, moves: [...session.moves] }));
+  }
+
+  finish(day: number, seed: number, level: LevelConfig, result: GameResult): Replay {
+    return { version: REPLAY_VERSION, day, seed, level, sessions: this.getSessions(), result, recordedAt: new Date().toISOString() };
+  }
+}
+
+// ============================================
+// PLAYBACK
+// ============================================
+
+// Steps through a replay with a headless core. Moves are made once the board has settled and the
+// player's pause before them has passed, so seeking replays the game from the start.
+export class ReplayPlayer {
+  private readonly MAX_WAIT = 90; // Long thinking pauses are cut to 1.5s
+  private readonly END_STEPS = 180; // Keep playing after the last move so the reveal and snow are shown
+  private readonly MAX_STEPS_PER_UPDATE = 6; // Per unit of playback speed
+  private readonly MAX_DURATION = 60 * 60 * 60; // An hour of steps, stops replays whose moves can't be made
+
+  private replay: Replay;
+  private core!: CandyCrushCore;
+  private sessionIndex = 0;
+  private moveIndex = 0; // Next move in the current session
+  private movesMade = 0; // Over all sessions
+  private waitSteps = 0; // Steps since the previous move (or the session start)
+  private step = 0; // Steps played in total
+  private accumulatedTime = 0;
+
+  private duration: number;
+  private moveSteps: number[] = []; // Step each move (or undo) is made on, over the whole replay
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+
+    // Play the replay through once to find its length and where the moves fall
+    this.reset();
+    let endStep = this.MAX_DURATION;
+    while (this.step < endStep) {
+      this.stepOnce();
+      if (this.movesMade > this.moveSteps.length) {
+        this.moveSteps.push(this.step - 1);
+      }
+      if (endStep === this.MAX_DURATION && this.isLastMoveDone()) {
+        endStep = Math.min(this.step + this.END_STEPS, this.MAX_DURATION);
+      }
+    }
+    this.duration = this.step;
+    this.reset();
+  }
+
+  getDuration(): number {
+    return this.duration;
+  }
+
+  getStep(): number {
+    return this.step;
+  }
+
+  getMoveSteps(): number[] {
+    return this.moveSteps;
+  }
+
+  isFinished(): boolean {
+    return this.step >= this.duration;
+  }
+
+  getRenderModel(): RenderModel {
+    return this.core.getRenderModel();
+  }
+
+  // Play the milliseconds since the last frame, multiplied by the playback speed
+  advance(deltaTime: number, speed: number = 1) {
+    this.accumulatedTime = Math.min(this.accumulatedTime + Math.max(deltaTime * speed, 0), STEP_TIME * this.MAX_STEPS_PER_UPDATE * Math.max(speed, 1));
+    while (this.accumulatedTime >= STEP_TIME && !this.isFinished()) {
+      this.stepOnce();
+      this.accumulatedTime -= STEP_TIME;
+    }
+  }
+
+  // Jump to a step, replaying from the start when going backwards
+  seek(step: number) {
+    const target = Math.min(Math.max(Math.round(step), 0), this.duration);
+    if (target < this.step) {
+      this.reset();
+    }
+    while (this.step < target) {
+      this.stepOnce();
+    }
+    this.accumulatedTime = 0;
+  }
+
+  private reset() {
+    this.sessionIndex = 0;
+    this.movesMade = 0;
+    this.step = 0;
+    this.accumulatedTime = 0;
+    this.startSession();
+  }
+
+  private startSession() {
+    const { gridWidth, gridHeight, ...level } = this.replay.level;
+    const session = this.replay.sessions[this.sessionIndex];
+    this.core = new CandyCrushCore(gridWidth, gridHeight, false, { ...level, seed: this.replay.seed, savedGame: session?.start ?? null });
+    this.moveIndex = 0;
+    this.waitSteps = 0;
+  }
+
+  private stepOnce() {
+    const session = this.replay.sessions[this.sessionIndex];
+    const move = session?.moves[this.moveIndex];
+
+    // Undos can also be made after running out of moves
+    if (move && ("undo" in move ? this.core.canUndo() : !this.core.isBusy())) {
+      const previousStep = this.moveIndex > 0 ? session.moves[this.moveIndex - 1].step : 0;
+      if (this.waitSteps >= Math.min(move.step - previousStep, this.MAX_WAIT)) {
+        if ("undo" in move) {
+          this.core.undo();
+        } else {
+          this.core.applySwap(move);
+        }
+        this.moveIndex++;
+        this.movesMade++;
+        this.waitSteps = 0;
+      }
+    } else if (!move && this.sessionIndex < this.replay.sessions.length - 1 && !this.core.isBusy()) {
+      // Session over, continue from the board the next one resumed
+      this.sessionIndex++;
+      this.startSession();
+    }
+
+    this.core.update();
+    this.waitSteps++;
+    this.step++;
+  }
+
+  // Every move has been made and the board has settled (or the photo is revealed)
+  private isLastMoveDone(): boolean {
+    const isLastSession = this.sessionIndex >= this.replay.sessions.length - 1;
+    const session = this.replay.sessions[this.sessionIndex];
+    const movesDone = !session || this.moveIndex >= session.moves.length;
+    return isLastSession && movesDone && (this.core.getState().isComplete || !this.core.isBusy());
+  }
+}
@@ -0,0 +1,88 @@
+// Hash-based routing
+// Screens live in the URL hash (e.g. "#/day/12") so the back button works and days can be linked to,
+// without needing any server configuration on the static host.
+
+import { useSyncExternalStore } from "react";
+
+export type Route =
+  | { name: "calendar" }
+  | { name: "day"; day: number }
+  | { name: "replay"; day: number }
+  | { name: "summary" }
+  | { name: "backup" }
+  | { name: "settings" }
+  | { name: "library" }
+  | { name: "builder"; calendarId: string | null }; // null for a new calendar
+
+export function parseRoute(hash: string): Route {
+  const path = hash.replace(/^#\/?/, "").replace(/\/$/, "");
+  const [section, param, action] = path.split("/");
+
+  switch (section) {
+    case "day":
+    case "replay": {
+      const day = Number(param);
+      return Number.isInteger(day) && day > 0 ? { name: section, day } : { name: "calendar" };
+    }
+    case "summary":
+      return { name: "summary" };
+    case "backup":
+      return { name: "backup" };
+    case "settings":
+      return { name: "settings" };
+    case "calendars":
+      if (param === "new") return { name: "builder", calendarId: null };
+      if (param && action === "edit") return { name: "builder", calendarId: decodeURIComponent(param) };
+      return { name: "library" };
+    default:
+      return { name: "calendar" };
+  }
+}
+
+export function getRouteHash(route: Route): string {
+  switch (route.name) {
+    case "calendar":
+      return "#/";
+    case "day":
+      return `#/day/${route.day}`;
+    case "replay":
+      return `#/replay/${route.day}`;
+    case "summary":
+      return "#/summary";
+    case "backup":
+      return "#/backup";
+    case "settings":
+      return "#/settings";
+    case "library":
+      return "#/calendars";
+    case "builder":
+      return route.calendarId === null ? "#/calendars/new" : `#/calendars/${encodeURIComponent(route.calendarId)}/edit`;
+  }
+}
+
+// Go to a route, replacing the current history entry for redirects
+export function navigate(route: Route, { replace = false }: { replace?: boolean } = {}) {
+  const hash = getRouteHash(route);
+  if (hash === window.location.hash) return;
+
+  if (replace) {
+    // replaceState doesn't fire hashchange, so notify listeners ourselves
+    window.history.replaceState(null, "", hash);
+    window.dispatchEvent(new HashChangeEvent("hashchange"));
+  } else {
+    window.location.hash = hash;
+  }
+}
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener("hashchange", onChange);
+  return () => window.removeEventListener("hashchange", onChange);
+};
+
+const getHash = () => window.location.hash;
+
+// Current route, re-rendering whenever the hash changes
+export function useRoute(): Route {
+  const hash = useSyncExternalStore(subscribe, getHash);
+  return parseRoute(hash);
+}
@@ -0,0 +1,67 @@
+// Calendar schedule: when each door unlocks
+// Doors open at midnight in the configured timezone, one per day from the start date.
+
+import { CALENDAR, type CalendarManifest } from "./manifest";
+
+export interface CalendarSchedule {
+  year: number; // Season shown in the title and mixed into the board seeds
+  startMonth: number; // Month of the first door, 1 = January
+  startDay: number; // Day of the month the first door opens
+  dayCount: number; // Number of doors
+  timeZone: string | null; // IANA timezone doors open in, null for the device's local time
+}
+
+// Schedule of a calendar, with one door per listed day
+export function getCalendarSchedule(calendar: CalendarManifest): CalendarSchedule {
+  return { ...calendar.schedule, dayCount: calendar.days.length };
+}
+
+// Set in calendar.json
+export const CALENDAR_SCHEDULE: CalendarSchedule = getCalendarSchedule(CALENDAR);
+
+// Preview mode for hosts and testing, set through the URL:
+//   ?preview           unlock every door
+//   ?preview=2025-12-10 unlock doors as if it were that date
+const PREVIEW_PARAM = "preview";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Calendar date (as a UTC midnight timestamp) of an instant in the given timezone
+const getDateInTimeZone = (date: Date, timeZone: string | null): number => {
+  if (timeZone === null) {
+    return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, year: "numeric", month: "numeric", day: "numeric" }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((candidate) => candidate.type === type)?.value);
+  return Date.UTC(part("year"), part("month") - 1, part("day"));
+};
+
+// Preview override from the URL: "all" to unlock everything, a date to pretend it's that day, or null
+const getPreviewOverride = (): "all" | number | null => {
+  const value = new URLSearchParams(window.location.search).get(PREVIEW_PARAM);
+  if (value === null) return null;
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : "all";
+};
+
+export function isPreviewMode(): boolean {
+  return getPreviewOverride() !== null;
+}
+
+// Calendar date a door opens, as UTC midnight (format it with timeZone "UTC")
+export function getUnlockDate(day: number, schedule: CalendarSchedule = CALENDAR_SCHEDULE): Date {
+  return new Date(Date.UTC(schedule.year, schedule.startMonth - 1, schedule.startDay + day - 1));
+}
+
+// Number of doors open right now, from 0 before the season to dayCount once it's all open
+export function getUnlockedDayCount(schedule: CalendarSchedule = CALENDAR_SCHEDULE, now: Date = new Date()): number {
+  const preview = getPreviewOverride();
+  if (preview === "all") return schedule.dayCount;
+
+  const today = preview ?? getDateInTimeZone(now, schedule.timeZone);
+  const firstDay = Date.UTC(schedule.year, schedule.startMonth - 1, schedule.startDay);
+  const daysOpen = Math.floor((today - firstDay) / MS_PER_DAY) + 1;
+  return Math.min(Math.max(daysOpen, 0), schedule.dayCount);
+}
@@ -0,0 +1,83 @@
+// Candy skins
+// How each candy type looks on the board. Besides colour, skins can give every type its own shape so
+// the candies stay easy to tell apart for colour-blind players.
+
+// "ball" is the original round candy, the rest are festive silhouettes
+export type CandyShape = "ball" | "star" | "bell" | "tree" | "ornament" | "gingerbread" | "present";
+
+export interface CandySkin {
+  id: string;
+  name: string;
+  description: string;
+  colors: string[]; // Fill colour per candy type (index = type)
+  shapes: CandyShape[]; // Shape per candy type (index = type)
+  isGlossy: boolean; // Shiny gradient and highlight, otherwise a flat fill
+  outlineColor: string | null; // Drawn around every candy, null for none
+  colorBombColor: string; // Colour bombs match every type, so they keep a round shape in this colour
+  markColor: string; // Stripes and wrapper ring on special candies
+}
+
+export const CANDY_SKINS: CandySkin[] = [
+  {
+    id: "classic",
+    name: "Classic",
+    description: "Shiny baubles in Christmas colours.",
+    colors: [
+      "#2E7D32", // Rich Christmas green
+      "#C62828", // Rich Christmas red
+      "#1E88E5", // Blue
+      "#DAA520", // Rich goldenrod
+      "#B0B0B0", // Warmer silver
+      "#8E24AA", // Plum purple
+    ],
+    shapes: ["ball", "ball", "ball", "ball", "ball", "ball"],
+    isGlossy: true,
+    outlineColor: null,
+    colorBombColor: "#4E342E", // Chocolate
+    markColor: "rgba(255, 255, 255, 0.85)",
+  },
+  {
+    id: "festive",
+    name: "Festive shapes",
+    description: "Trees, bells, stars and more, each with its own silhouette.",
+    colors: [
+      "#2E7D32", // Tree green
+      "#C62828", // Ornament red
+      "#1E88E5", // Present blue
+      "#DAA520", // Star gold
+      "#B0B0B0", // Bell silver
+      "#A0522D", // Gingerbread brown
+    ],
+    shapes: ["tree", "ornament", "present", "star", "bell", "gingerbread"],
+    isGlossy: true,
+    outlineColor: "rgba(0, 0, 0, 0.35)",
+    colorBombColor: "#4E342E",
+    markColor: "rgba(255, 255, 255, 0.85)",
+  },
+  {
+    id: "high-contrast",
+    name: "High contrast",
+    description: "Distinct shapes in a colour-blind safe palette with bold outlines.",
+    // Okabe-Ito palette, distinguishable with the common forms of colour blindness
+    colors: [
+      "#009E73", // Bluish green
+      "#D55E00", // Vermilion
+      "#56B4E9", // Sky blue
+      "#F0E442", // Yellow
+      "#FFFFFF", // White
+      "#CC79A7", // Reddish purple
+    ],
+    shapes: ["tree", "ornament", "present", "star", "bell", "gingerbread"],
+    isGlossy: false,
+    outlineColor: "#000000",
+    colorBombColor: "#000000",
+    markColor: "#000000",
+  },
+];
+
+export const DEFAULT_SKIN_ID = "classic";
+
+// Skin with the given id, falling back to the default for unknown ids (e.g. a skin that was removed)
+export function getCandySkin(id: string | null): CandySkin {
+  return CANDY_SKINS.find((skin) => skin.id === id) ?? CANDY_SKINS.find((skin) => skin.id === DEFAULT_SKIN_ID)!;
+}
@@ -0,0 +1,114 @@
+// Storage tests
+// Run against an in-memory localStorage, Node has none.
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createShareCode, getSavedGame, importShareCode, loadProgress, markDaySolved, saveGame, type StoredGame } from "./storage";
+import { DAY_COUNT } from "./progress";
+
+class MemoryStorage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  clear() {
+    this.items.clear();
+  }
+}
+
+const RESULT = { score: 100, moves: 10, time: 60000 };
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", new MemoryStorage());
+});
+
+describe("share codes", () => {
+  const shareDays = (days: number[]): string => {
+    days.forEach((day) => markDaySolved(day, RESULT));
+    const code = createShareCode();
+    localStorage.clear();
+    return code;
+  };
+
+  it.each([
+    ["no days", []],
+    ["the first and last day", [1, DAY_COUNT]],
+    ["every day", Array.from({ length: DAY_COUNT }, (_, i) => i + 1)],
+  ])("carries %s over", (_, days) => {
+    const code = shareDays(days);
+    expect(code).toMatch(/^ADV\d+-[0-9A-Z]+-[0-9A-Z]$/);
+    expect(importShareCode(code)?.solvedDays).toEqual(days);
+    expect(loadProgress().solvedDays).toEqual(days);
+  });
+
+  it("rejects a code with a typo", () => {
+    const code = shareDays([3, 7]);
+    const [prefix, body, checksum] = code.split("-");
+    const typo = (parseInt(body[0], 36) + 1) % 36;
+    expect(importShareCode(`${prefix}-${typo.toString(36).toUpperCase()}${body.slice(1)}-${checksum}`)).toBeNull();
+  });
+
+  it("rejects a code with days past the end of the calendar", () => {
+    const body = (2n ** BigInt(DAY_COUNT)).toString(36).toUpperCase();
+    const checksum = ([...body].reduce((total, char, i) => total + parseInt(char, 36) * (i + 1), 0) % 36).toString(36).toUpperCase();
+    expect(importShareCode(`ADV1-${body}-${checksum}`)).toBeNull();
+  });
+});
+
+describe("saved games", () => {
+  const STORED_GAME: StoredGame = {
+    grid: [
+      [{ type: 0, special: null }, { type: 1, special: "wrapped" }],
+      [{ type: 2, special: null }, { type: 3, special: "colorBomb" }],
+    ],
+    revealedCells: [
+      [true, false],
+      [false, false],
+    ],
+    points: 120,
+    tries: 4,
+    undosUsed: 1,
+    elapsedTime: 30000,
+    replaySessions: [{ start: null, moves: [{ from: { x: 0, y: 0 }, to: { x: 1, y: 0 }, step: 12 }] }],
+  };
+
+  const store = (value: unknown) => localStorage.setItem("advent-saved-game-5", JSON.stringify(value));
+
+  it("reads a saved game back", () => {
+    saveGame(5, STORED_GAME);
+    expect(getSavedGame(5, 4)).toEqual(STORED_GAME);
+  });
+
+  it("drops fields it doesn't know", () => {
+    store({ ...STORED_GAME, extra: "field", grid: STORED_GAME.grid.map((row) => row.map((cell) => ({ ...cell, glow: true }))) });
+    expect(getSavedGame(5, 4)).toEqual(STORED_GAME);
+  });
+
+  it.each([
+    ["a missing cell", { grid: [[null, { type: 1, special: null }], STORED_GAME.grid[1]] }],
+    ["a candy type past the level's candy count", { grid: [[{ type: 4, special: null }, { type: 1, special: null }], STORED_GAME.grid[1]] }],
+    ["an unknown special", { grid: [[{ type: 0, special: "rocket" }, { type: 1, special: null }], STORED_GAME.grid[1]] }],
+    ["a revealed cell that isn't a boolean", { revealedCells: [[1, 0], [0, 0]] }],
+    ["a missing score", { points: undefined }],
+  ])("ignores a saved game with %s", (_, change) => {
+    store({ ...STORED_GAME, ...change });
+    expect(getSavedGame(5, 4)).toBeNull();
+  });
+});
@@ -0,0 +1,340 @@
+// Versioned progress storage
+// Everything persisted in localStorage goes through here. Stored data carries a schema version,
+// older formats are migrated on load and unreadable data is set aside instead of crashing the app.
+
+import { CANDY_SPECIALS, type SavedGame } from "./CandyCrushCore";
+import { DEFAULT_AUDIO_SETTINGS, type AudioSettings } from "./audio";
+import { parseReplay, parseReplaySessions, type Replay, type ReplaySession } from "./replay";
+import { isRecord } from "./validation";
+import { createEmptyProgress, DAY_COUNT, mergeDayRecord, mergeProgress, type DayRecord, type DayRecords, type GameResult, type Progress } from "./progress";
+
+const PROGRESS_KEY = "advent-progress";
+const CORRUPT_PROGRESS_KEY = "advent-progress-corrupt"; // Last unreadable value, kept for bug reports
+const SAVED_GAME_KEY_PREFIX = "advent-saved-game-";
+const REPLAY_KEY_PREFIX = "advent-replay-";
+const ACTIVE_CALENDAR_KEY = "advent-active-calendar"; // Id of the custom calendar being played
+const CANDY_SKIN_KEY = "advent-candy-skin"; // Device setting, shared by every calendar
+const AUDIO_SETTINGS_KEY = "advent-audio-settings"; // Device setting, shared by every calendar
+
+// Keys used before progress was versioned (schema version 0)
+const LEGACY_SOLVED_PUZZLES_KEY = "advent-solved-puzzles";
+const LEGACY_DAY_RECORDS_KEY = "advent-day-records";
+
+export const PROGRESS_VERSION = 1;
+
+interface StoredProgress extends Progress {
+  version: number;
+}
+
+// In-progress board with the play time spent on it so far
+export interface StoredGame extends SavedGame {
+  elapsedTime: number; // Milliseconds of play time
+  replaySessions: ReplaySession[]; // Moves recorded so far
+}
+
+// Custom calendars keep their own progress next to the built-in calendar's, under suffixed keys
+let calendarScope: string | null = null;
+
+const scopedKey = (key: string): string => (calendarScope === null ? key : `${key}@${calendarScope}`);
+
+// Switch progress and saved games to a custom calendar, or back to the built-in one with null
+export const setProgressScope = (calendarId: string | null) => {
+  calendarScope = calendarId;
+};
+
+export const getActiveCalendarId = (): string | null => localStorage.getItem(ACTIVE_CALENDAR_KEY);
+
+export const setActiveCalendarId = (calendarId: string | null) => {
+  if (calendarId === null) {
+    localStorage.removeItem(ACTIVE_CALENDAR_KEY);
+  } else {
+    localStorage.setItem(ACTIVE_CALENDAR_KEY, calendarId);
+  }
+};
+
+// Remove everything stored for a custom calendar
+export const clearCalendarProgress = (calendarId: string) => {
+  const suffix = `@${calendarId}`;
+  const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i)).filter((key): key is string => key?.endsWith(suffix) ?? false);
+  keys.forEach((key) => localStorage.removeItem(key));
+};
+
+// ============================================
+// PARSING AND VALIDATION
+// ============================================
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// Stored value for a key, null when missing and undefined when unreadable
+const readJson = (key: string): unknown => {
+  const stored = localStorage.getItem(key);
+  return stored === null ? null : parseJson(stored);
+};
+
+const isValidDay = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= DAY_COUNT;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+// Keep only valid, unique day numbers
+const sanitizeSolvedDays = (value: unknown): number[] => {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.filter(isValidDay))).sort((a, b) => a - b);
+};
+
+// Keep only records whose fields have the expected types
+const sanitizeDayRecords = (value: unknown): DayRecords => {
+  const records: DayRecords = {};
+  if (!isRecord(value)) return records;
+
+  for (const [day, record] of Object.entries(value)) {
+    if (!isValidDay(Number(day)) || !isRecord(record)) continue;
+
+    const { bestScore, fewestMoves, fastestTime, completedAt } = record;
+    if (isFiniteNumber(bestScore) && isFiniteNumber(fewestMoves) && isFiniteNumber(fastestTime) && typeof completedAt === "string") {
+      records[Number(day)] = { bestScore, fewestMoves, fastestTime, completedAt } satisfies DayRecord;
+    }
+  }
+  return records;
+};
+
+// ============================================
+// MIGRATIONS
+// ============================================
+
+// migrations[n] upgrades data stored with version n to version n + 1
+const migrations: ((data: Record<string, unknown>) => Record<string, unknown>)[] = [
+  // 0 -> 1: separate `number[]` solved list and records map merged into one versioned object
+  (data) => ({ version: 1, solvedDays: data.solvedPuzzles, dayRecords: data.dayRecords }),
+];
+
+const migrate = (data: Record<string, unknown>): Progress => {
+  let current = data;
+  let version = isFiniteNumber(current.version) ? current.version : 0;
+
+  while (version < PROGRESS_VERSION && migrations[version]) {
+    current = migrations[version](current);
+    version++;
+  }
+
+  return {
+    solvedDays: sanitizeSolvedDays(current.solvedDays),
+    dayRecords: sanitizeDayRecords(current.dayRecords),
+  };
+};
+
+// Progress in the unversioned format used before this module existed
+const readLegacyProgress = (): Record<string, unknown> | null => {
+  const solvedPuzzles = readJson(LEGACY_SOLVED_PUZZLES_KEY);
+  const dayRecords = readJson(LEGACY_DAY_RECORDS_KEY);
+  if (solvedPuzzles === null && dayRecords === null) return null;
+
+  return { version: 0, solvedPuzzles, dayRecords };
+};
+
+// ============================================
+// PROGRESS
+// ============================================
+
+export const loadProgress = (): Progress => {
+  const progressKey = scopedKey(PROGRESS_KEY);
+  const stored = readJson(progressKey);
+
+  if (isRecord(stored)) {
+    if (isFiniteNumber(stored.version) && stored.version > PROGRESS_VERSION) {
+      // Written by a newer version of the app: read what we understand without overwriting it
+      return migrate({ ...stored, version: PROGRESS_VERSION });
+    }
+
+    const progress = migrate(stored);
+    if (stored.version !== PROGRESS_VERSION) {
+      saveProgress(progress);
+    }
+    return progress;
+  }
+
+  if (stored !== null) {
+    // Keep the unreadable value around and start over rather than crash
+    localStorage.setItem(CORRUPT_PROGRESS_KEY, localStorage.getItem(progressKey) ?? "");
+    localStorage.removeItem(progressKey);
+  }
+
+  const legacy = calendarScope === null ? readLegacyProgress() : null;
+  if (legacy) {
+    const progress = migrate(legacy);
+    saveProgress(progress);
+    localStorage.removeItem(LEGACY_SOLVED_PUZZLES_KEY);
+    localStorage.removeItem(LEGACY_DAY_RECORDS_KEY);
+    return progress;
+  }
+
+  return createEmptyProgress();
+};
+
+export const saveProgress = (progress: Progress) => {
+  const stored: StoredProgress = { version: PROGRESS_VERSION, solvedDays: progress.solvedDays, dayRecords: progress.dayRecords };
+  localStorage.setItem(scopedKey(PROGRESS_KEY), JSON.stringify(stored));
+};
+
+// Mark a day as solved and fold the result into its record
+export const markDaySolved = (day: number, result: GameResult): Progress => {
+  const progress = loadProgress();
+  if (!progress.solvedDays.includes(day)) {
+    progress.solvedDays = [...progress.solvedDays, day].sort((a, b) => a - b);
+  }
+  progress.dayRecords[day] = mergeDayRecord(progress.dayRecords[day], result);
+
+  saveProgress(progress);
+  return progress;
+};
+
+// ============================================
+// IN-PROGRESS GAMES
+// ============================================
+
+type SavedCandy = SavedGame["grid"][number][number];
+
+const isSavedCandy = (value: unknown, candyTypeCount: number): value is SavedCandy =>
+  isRecord(value) &&
+  Number.isInteger(value.type) &&
+  (value.type as number) >= 0 &&
+  (value.type as number) < candyTypeCount &&
+  (value.special === null || CANDY_SPECIALS.some((special) => special === value.special));
+
+const isGridOf = <Cell>(value: unknown, isCell: (cell: unknown) => cell is Cell): value is Cell[][] =>
+  Array.isArray(value) && value.every((row) => Array.isArray(row) && row.every(isCell));
+
+// Board saved for a day, null when there is none or it's damaged so the day starts on a fresh board
+export const getSavedGame = (day: number, candyTypeCount: number): StoredGame | null => {
+  const stored = readJson(scopedKey(SAVED_GAME_KEY_PREFIX + day));
+  if (
+    !isRecord(stored) ||
+    !isGridOf(stored.grid, (cell): cell is SavedCandy => isSavedCandy(cell, candyTypeCount)) ||
+    !isGridOf(stored.revealedCells, (cell): cell is boolean => typeof cell === "boolean") ||
+    !isFiniteNumber(stored.points) ||
+    !isFiniteNumber(stored.tries)
+  ) {
+    return null;
+  }
+
+  // Only the checked fields, anything else stored with the board is dropped
+  return {
+    grid: stored.grid.map((row) => row.map(({ type, special }) => ({ type, special }))),
+    revealedCells: stored.revealedCells,
+    points: stored.points,
+    tries: stored.tries,
+    undosUsed: isFiniteNumber(stored.undosUsed) ? stored.undosUsed : 0,
+    elapsedTime: isFiniteNumber(stored.elapsedTime) ? stored.elapsedTime : 0,
+    replaySessions: parseReplaySessions(stored.replaySessions),
+  };
+};
+
+export const saveGame = (day: number, savedGame: StoredGame) => {
+  localStorage.setItem(scopedKey(SAVED_GAME_KEY_PREFIX + day), JSON.stringify(savedGame));
+};
+
+export const clearSavedGame = (day: number) => {
+  localStorage.removeItem(scopedKey(SAVED_GAME_KEY_PREFIX + day));
+};
+
+// ============================================
+// REPLAYS
+// ============================================
+
+// Replay of how a solved day was played, null for days solved before replays were recorded
+export const getReplay = (day: number): Replay | null => {
+  const stored = readJson(scopedKey(REPLAY_KEY_PREFIX + day));
+  return stored === null ? null : parseReplay(stored);
+};
+
+export const saveReplay = (day: number, replay: Replay) => {
+  localStorage.setItem(scopedKey(REPLAY_KEY_PREFIX + day), JSON.stringify(replay));
+};
+
+// ============================================
+// SETTINGS
+// ============================================
+
+export const getCandySkinId = (): string | null => localStorage.getItem(CANDY_SKIN_KEY);
+
+export const setCandySkinId = (skinId: string) => {
+  localStorage.setItem(CANDY_SKIN_KEY, skinId);
+};
+
+// Stored audio settings, with defaults for anything missing or invalid
+export const loadAudioSettings = (): AudioSettings => {
+  const stored = readJson(AUDIO_SETTINGS_KEY);
+  if (!isRecord(stored)) return { ...DEFAULT_AUDIO_SETTINGS };
+
+  const { volume, isMuted, haptics } = stored;
+  return {
+    volume: isFiniteNumber(volume) ? Math.min(Math.max(volume, 0), 1) : DEFAULT_AUDIO_SETTINGS.volume,
+    isMuted: typeof isMuted === "boolean" ? isMuted : DEFAULT_AUDIO_SETTINGS.isMuted,
+    haptics: typeof haptics === "boolean" ? haptics : DEFAULT_AUDIO_SETTINGS.haptics,
+  };
+};
+
+export const saveAudioSettings = (settings: AudioSettings) => {
+  localStorage.setItem(AUDIO_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// ============================================
+// EXPORT AND IMPORT
+// ============================================
+
+export const exportProgress = (): string => {
+  const progress = loadProgress();
+  const stored: StoredProgress = { version: PROGRESS_VERSION, ...progress };
+  return JSON.stringify(stored, null, 2);
+};
+
+// Merge progress from an exported file into this device, returns null if the file can't be read
+export const importProgress = (text: string): Progress | null => {
+  const data = parseJson(text);
+
+  // Accept the bare `number[]` solved list too, that's what the very first version stored
+  const incoming = Array.isArray(data) ? migrate({ version: 0, solvedPuzzles: data }) : isRecord(data) ? migrate(data) : null;
+  if (!incoming) return null;
+
+  const progress = mergeProgress(loadProgress(), incoming);
+  saveProgress(progress);
+  return progress;
+};
+
+// Share codes only carry the solved days (as a base 36 bit mask) plus a check character, e.g. "ADV1-9ZLDR-5".
+// The mask is a BigInt so calendars with more than 31 days don't overflow into the sign bit.
+const SHARE_CODE_PREFIX = `ADV${PROGRESS_VERSION}`;
+
+// Position-weighted digit sum, catches typos and swapped characters
+const shareCodeChecksum = (body: string): string => {
+  const sum = [...body].reduce((total, char, i) => total + parseInt(char, 36) * (i + 1), 0);
+  return (sum % 36).toString(36).toUpperCase();
+};
+
+const dayBit = (day: number): bigint => 1n << BigInt(day - 1);
+
+export const createShareCode = (): string => {
+  const mask = loadProgress().solvedDays.reduce((bits, day) => bits | dayBit(day), 0n);
+  const body = mask.toString(36).toUpperCase();
+  return `${SHARE_CODE_PREFIX}-${body}-${shareCodeChecksum(body)}`;
+};
+
+// Merge the solved days from a share code, returns null for codes that don't check out
+export const importShareCode = (code: string): Progress | null => {
+  const [prefix, body, checksum] = code.trim().toUpperCase().split("-");
+  if (prefix !== SHARE_CODE_PREFIX || !body || !/^[0-9A-Z]+$/.test(body) || checksum !== shareCodeChecksum(body)) return null;
+
+  // BigInt has no base 36 parser, so read the digits one by one
+  const mask = [...body].reduce((value, digit) => value * 36n + BigInt(parseInt(digit, 36)), 0n);
+  if (mask >= dayBit(DAY_COUNT + 1)) return null;
+
+  const solvedDays = Array.from({ length: DAY_COUNT }, (_, i) => i + 1).filter((day) => (mask & dayBit(day)) !== 0n);
+  const progress = mergeProgress(loadProgress(), { solvedDays, dayRecords: {} });
+  saveProgress(progress);
+  return progress;
+};
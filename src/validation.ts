@@ -0,0 +1,4 @@
+// Shared checks for data read back from storage and files
+
+// A plain object (not null or an array) whose fields can be checked one by one
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value);